@@ -5,16 +5,34 @@
 
 import { NotificationType, NotificationType0, RequestType, TextDocumentIdentifier } from 'vscode-languageserver-protocol';
 
+import { Validate } from './settings';
+
 export enum Status {
 	ok = 1,
 	warn = 2,
 	error = 3
 }
 
+/**
+ * Why validating a document failed.
+ */
+export enum StatusReason {
+	noConfig = 'noConfig',
+	configError = 'configError',
+	missingModule = 'missingModule',
+	unexpectedError = 'unexpectedError'
+}
+
 export type StatusParams = {
 	uri: string;
 	state: Status;
 	validationTime?: number;
+	reason?: StatusReason;
+	/**
+	 * The missing package for `StatusReason.missingModule` or the configuration
+	 * file for `StatusReason.configError`.
+	 */
+	detail?: string;
 };
 
 /**
@@ -61,6 +79,41 @@ export namespace NoESLintLibraryRequest {
 	export const type = new RequestType<NoESLintLibraryParams, NoESLintLibraryResult, void>(method);
 }
 
+export type MissingModuleParams = {
+	/**
+	 * The package that isn't installed.
+	 */
+	module: string;
+	source: TextDocumentIdentifier;
+	/**
+	 * The configuration file referring to the package if known.
+	 */
+	configFile?: string;
+};
+
+export type MissingModuleResult = {
+};
+
+/**
+ * The eslint/missingModule request is sent from the server to the client
+ * to inform the client that a package the ESLint configuration refers to,
+ * like a plugin, isn't installed.
+ */
+export namespace MissingModuleRequest {
+	export const method: 'eslint/missingModule' = 'eslint/missingModule';
+	export const type = new RequestType<MissingModuleParams, MissingModuleResult, void>(method);
+}
+
+/**
+ * The eslint/packagesInstalled notification is sent from the client to the
+ * server after the client installed ESLint or a missing package. The server
+ * loads the ESLint libraries again and revalidates all documents.
+ */
+export namespace PackagesInstalledNotification {
+	export const method: 'eslint/packagesInstalled' = 'eslint/packagesInstalled';
+	export const type = new NotificationType0(method);
+}
+
 export type OpenESLintDocParams = {
 	url: string;
 };
@@ -93,6 +146,22 @@ export namespace ProbeFailedRequest {
 	export const type = new RequestType<ProbeFailedParams, void, void>(method);
 }
 
+export type ProbeSucceededParams = {
+	textDocument: TextDocumentIdentifier;
+	flatConfig: boolean;
+};
+
+/**
+ * The eslint/probeSucceeded notification is sent from the server to the
+ * client to tell the client that probing a document succeeded and whether
+ * a flat configuration decided it. Flat configurations can lint any language
+ * so the client probes documents of all languages in that workspace folder.
+ */
+export namespace ProbeSucceededNotification {
+	export const method: 'eslint/probeSucceeded' = 'eslint/probeSucceeded';
+	export const type = new NotificationType<ProbeSucceededParams>(method);
+}
+
 /**
  * The eslint/showOutputChannel notification is sent from the server to
  * the client to ask the client to reveal it's output channel.
@@ -110,4 +179,95 @@ export namespace ShowOutputChannel {
 export namespace ExitCalled {
 	export const method: 'eslint/exitCalled' = 'eslint/exitCalled';
 	export const type = new NotificationType<[number, string]>(method);
-}
\ No newline at end of file
+}
+
+export type ActiveTextDocumentParams = {
+	textDocument?: TextDocumentIdentifier;
+};
+
+/**
+ * The eslint/activeTextDocument notification is sent from the client to the
+ * server whenever the active text editor changes. The server validates the
+ * active document before other documents.
+ */
+export namespace ActiveTextDocumentNotification {
+	export const method: 'eslint/activeTextDocument' = 'eslint/activeTextDocument';
+	export const type = new NotificationType<ActiveTextDocumentParams>(method);
+}
+
+export type EffectiveConfigParams = {
+	textDocument: TextDocumentIdentifier;
+};
+
+export type EffectiveConfigResult = {
+	filePath: string;
+	configType: 'eslintrc' | 'flat';
+	libraryPath: string | undefined;
+	workingDirectory: string;
+	config: object | null;
+};
+
+/**
+ * The eslint/effectiveConfig request is sent from the client to the server
+ * to compute the configuration ESLint uses for a document. The result is
+ * `null` if ESLint doesn't validate the document.
+ */
+export namespace EffectiveConfigRequest {
+	export const method: 'eslint/effectiveConfig' = 'eslint/effectiveConfig';
+	export const type = new RequestType<EffectiveConfigParams, EffectiveConfigResult | null, void>(method);
+}
+
+export type ExplainFileParams = {
+	textDocument: TextDocumentIdentifier;
+	languageId: string;
+	/**
+	 * The outcome of the client's checks the server continues with.
+	 */
+	validate: Validate;
+};
+
+export type ExplainFileResult = {
+	/**
+	 * How the server resolved the settings of the file in markdown.
+	 */
+	steps: string[];
+	validate: Validate;
+	filePath: string | null;
+	libraryPath: string | null;
+	workingDirectory: string | null;
+	configType: 'eslintrc' | 'flat' | null;
+	isIgnored: boolean | null;
+};
+
+/**
+ * The eslint/explainFile request is sent from the client to the server to
+ * explain whether and how ESLint validates a document. The document doesn't
+ * need to be open on the server.
+ */
+export namespace ExplainFileRequest {
+	export const method: 'eslint/explainFile' = 'eslint/explainFile';
+	export const type = new RequestType<ExplainFileParams, ExplainFileResult, void>(method);
+}
+
+export type ProbeLanguageParams = {
+	textDocument: TextDocumentIdentifier;
+	languageId: string;
+};
+
+export type ProbeLanguageResult = {
+	/**
+	 * Whether the configuration governing the document lints it.
+	 */
+	validated: boolean;
+};
+
+/**
+ * The eslint/probeLanguage request is sent from the client to the server to
+ * check whether the ESLint configuration lints a document whose language
+ * the extension doesn't validate. The document doesn't need to be open on
+ * the server.
+ */
+export namespace ProbeLanguageRequest {
+	export const method: 'eslint/probeLanguage' = 'eslint/probeLanguage';
+	export const type = new RequestType<ProbeLanguageParams, ProbeLanguageResult, void>(method);
+}
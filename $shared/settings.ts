@@ -30,6 +30,7 @@ export type CodeActionSettings = {
 		enable: boolean;
 		location: 'separateLine' | 'sameLine';
 		commentStyle: 'line' | 'block';
+		requireDescription?: boolean;
 	};
 	showDocumentation: {
 		enable: boolean;
@@ -125,6 +126,13 @@ export type RuleCustomization = {
 
 export type RunValues = 'onType' | 'onSave';
 
+/**
+ * How ESLint looks up the flat configuration of a file. `auto` follows the
+ * ESLint version: ESLint 10 looks up the configuration from the file's
+ * directory, earlier versions from the working directory.
+ */
+export type ConfigLookupValues = 'auto' | 'file' | 'cwd';
+
 export enum ModeEnum {
 	auto = 'auto',
 	location = 'location'
@@ -138,6 +146,10 @@ export namespace ModeEnum {
 
 export type ModeItem = {
 	mode: ModeEnum;
+	/**
+	 * Additional file names marking the root of a package in `auto` mode.
+	 */
+	rootIndicators?: string[];
 };
 
 export namespace ModeItem {
@@ -161,6 +173,16 @@ export namespace DirectoryItem {
 
 export type PackageManagers = 'npm' | 'yarn' | 'pnpm';
 
+/**
+ * An entry of the `eslint.languages` setting. `null` removes a comment style the
+ * language has by default.
+ */
+export type LanguageSettings = {
+	ext?: string;
+	lineComment?: string | null;
+	blockComment?: [string, string] | null;
+};
+
 export type ESLintOptions = object & { fixTypes?: string[] };
 
 export type ConfigurationSettings = {
@@ -168,6 +190,7 @@ export type ConfigurationSettings = {
 	packageManager: PackageManagers;
 	useESLintClass: boolean;
 	useFlatConfig?: boolean | undefined;
+	configLookup: ConfigLookupValues;
 	useRealpaths: boolean;
 	experimental?: {
 		useFlatConfig: boolean;
@@ -181,6 +204,12 @@ export type ConfigurationSettings = {
 		location?: string;
 		severity?: 'error' | 'warn' | 'info' | 'hint';
 	};
+	workspaceDiagnostics: {
+		enable: boolean;
+		languageIds: string[];
+		probeLanguageIds: string[];
+	};
+	languages: Record<string, LanguageSettings>;
 	onIgnoredFiles: ESLintSeverity;
 	options: ESLintOptions | undefined;
 	rulesCustomizations: RuleCustomization[];
@@ -192,3 +221,11 @@ export type ConfigurationSettings = {
 	workspaceFolder: WorkspaceFolder | undefined;
 	workingDirectory: ModeItem | DirectoryItem | undefined;
 };
+
+/**
+ * The options passed from the client to the server when initializing
+ * the connection.
+ */
+export type InitializationOptions = {
+	workspaceDiagnostics?: boolean;
+};
@@ -5,46 +5,98 @@
  * ------------------------------------------------------------------------------------------ */
 
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 
 import {
 	workspace as Workspace, window as Window, languages as Languages, Uri, TextDocument, CodeActionContext, Diagnostic,
 	Command, CodeAction, MessageItem, ConfigurationTarget, env as Env, CodeActionKind, WorkspaceConfiguration, NotebookCell, commands,
-	ExtensionContext, LanguageStatusItem, LanguageStatusSeverity, DocumentFilter as VDocumentFilter
+	ExtensionContext, LanguageStatusItem, LanguageStatusSeverity, DocumentFilter as VDocumentFilter, ProgressLocation, EventEmitter,
+	tasks as Tasks, Task, TaskScope, ShellExecution
 } from 'vscode';
 
 import {
 	LanguageClient, LanguageClientOptions, TransportKind, ErrorHandler, CloseAction, RevealOutputChannelOn, ServerOptions,
 	DidCloseTextDocumentNotification, DidOpenTextDocumentNotification, State, VersionedTextDocumentIdentifier, ExecuteCommandParams,
-	ExecuteCommandRequest, ConfigurationParams, NotebookDocumentSyncRegistrationType, DiagnosticPullMode, DocumentDiagnosticRequest
+	ExecuteCommandRequest, ConfigurationParams, NotebookDocumentSyncRegistrationType, DiagnosticPullMode, DocumentDiagnosticRequest,
+	WorkDoneProgress
 } from 'vscode-languageclient/node';
 
 import { LegacyDirectoryItem, Migration, PatternItem, ValidateItem } from './settings';
-import { ExitCalled, NoConfigRequest, NoESLintLibraryRequest, OpenESLintDocRequest, ProbeFailedRequest, ShowOutputChannel, Status, StatusNotification, StatusParams } from './shared/customMessages';
-import { CodeActionSettings, CodeActionsOnSaveMode, CodeActionsOnSaveOptions, CodeActionsOnSaveRules, ConfigurationSettings, DirectoryItem, ESLintOptions, ESLintSeverity, ModeItem, PackageManagers, RuleCustomization, RunValues, Validate } from './shared/settings';
-import { convert2RegExp, Is, Semaphore, toOSPath, toPosixPath } from './node-utils';
+import { ActiveTextDocumentNotification, EffectiveConfigRequest, EffectiveConfigResult, ExitCalled, ExplainFileRequest, ExplainFileResult, MissingModuleRequest, NoConfigRequest, NoESLintLibraryRequest, OpenESLintDocRequest, PackagesInstalledNotification, ProbeFailedRequest, ProbeLanguageRequest, ProbeSucceededNotification, ShowOutputChannel, Status, StatusNotification, StatusParams, StatusReason } from './shared/customMessages';
+import { CodeActionSettings, CodeActionsOnSaveMode, ConfigLookupValues, CodeActionsOnSaveOptions, CodeActionsOnSaveRules, ConfigurationSettings, DirectoryItem, ESLintOptions, ESLintSeverity, InitializationOptions, LanguageSettings, ModeItem, PackageManagers, RuleCustomization, RunValues, Validate } from './shared/settings';
+import { convert2RegExp, findPackageProject, getInstallCommand, Is, isPackageName, isWorkspaceRoot, Semaphore, toOSPath, toPosixPath } from './node-utils';
 import { pickFolder } from './vscode-utils';
 
 export class Validator {
 
+	// Languages ESLint lints using a language plugin or a parser in a flat configuration.
+	private static readonly pluginLanguageIds: ReadonlySet<string> = new Set([
+		'javascript', 'javascriptreact', 'typescript', 'typescriptreact', 'html', 'vue', 'svelte', 'astro', 'civet', 'glimmer-js', 'glimmer-ts',
+		'handlebars', 'markdown', 'mdx', 'css', 'scss', 'less', 'json', 'jsonc', 'json5', 'coffeescript', 'yaml', 'toml', 'graphql'
+	]);
+
 	private readonly probeFailed: Set<string> = new Set();
+	// Workspace folders whose documents are linted using a flat configuration.
+	private readonly flatConfigFolders: Set<string> = new Set();
+	// Languages whose probe failed in a flat configuration folder keyed by folder and language.
+	private readonly flatConfigProbeFailed: Set<string> = new Set();
 
 	public clear(): void {
 		this.probeFailed.clear();
+		this.flatConfigProbeFailed.clear();
 	}
 
-	public add(uri: Uri): void {
+	/**
+	 * Records a failed probe of a document. Languages probed only because the workspace
+	 * folder uses a flat configuration aren't probed again in that folder.
+	 */
+	public add(uri: Uri, languageId?: string): void {
 		this.probeFailed.add(uri.toString());
+		const folder = Workspace.getWorkspaceFolder(uri);
+		if (languageId !== undefined && folder !== undefined && this.flatConfigFolders.has(folder.uri.toString()) && !this.isProbed(uri, languageId)) {
+			this.flatConfigProbeFailed.add(`${folder.uri.toString()}#${languageId}`);
+		}
+	}
+
+	/**
+	 * Records whether a flat configuration decided a successful probe of the
+	 * document. Returns `true` if the workspace folder wasn't known to use a
+	 * flat configuration before.
+	 */
+	public addProbeSucceeded(uri: Uri, flatConfig: boolean): boolean {
+		const folder = Workspace.getWorkspaceFolder(uri);
+		if (folder === undefined) {
+			return false;
+		}
+		const key = folder.uri.toString();
+		if (!flatConfig) {
+			this.flatConfigFolders.delete(key);
+			return false;
+		}
+		if (this.flatConfigFolders.has(key)) {
+			return false;
+		}
+		this.flatConfigFolders.add(key);
+		return true;
 	}
 
 	public check(textDocument: TextDocument): Validate {
+		return this.explain(textDocument).validate;
+	}
+
+	/**
+	 * Checks whether ESLint validates a document like `check` and names the setting
+	 * that decided it.
+	 */
+	public explain(textDocument: TextDocument): { validate: Validate; reason: string; probeFailed: boolean } {
 		const config = Workspace.getConfiguration('eslint', textDocument.uri);
 
 		if (!config.get<boolean>('enable', true)) {
-			return Validate.off;
+			return { validate: Validate.off, reason: '`eslint.enable` is `false`.', probeFailed: false };
 		}
 
 		if (textDocument.uri.scheme === 'untitled' && config.get<boolean>('ignoreUntitled', false)) {
-			return Validate.off;
+			return { validate: Validate.off, reason: 'The document is untitled and `eslint.ignoreUntitled` is `true`.', probeFailed: false };
 		}
 
 		const languageId = textDocument.languageId;
@@ -52,28 +104,64 @@ export class Validator {
 		if (Array.isArray(validate)) {
 			for (const item of validate) {
 				if (Is.string(item) && item === languageId) {
-					return Validate.on;
+					return { validate: Validate.on, reason: `\`${languageId}\` is listed in \`eslint.validate\`.`, probeFailed: false };
 				} else if (ValidateItem.is(item) && item.language === languageId) {
-					return Validate.on;
+					return { validate: Validate.on, reason: `\`${languageId}\` is listed in \`eslint.validate\`.`, probeFailed: false };
 				}
 			}
-			return Validate.off;
+			return { validate: Validate.off, reason: `\`eslint.validate\` is set and doesn't list \`${languageId}\`.`, probeFailed: false };
 		}
 
 		if (this.probeFailed.has(textDocument.uri.toString())) {
-			return Validate.off;
+			return { validate: Validate.off, reason: 'Probing the document failed before. Probes are repeated when a configuration file changes.', probeFailed: true };
 		}
 
-		const probe: string[] | undefined = config.get<string[]>('probe');
-		if (Array.isArray(probe)) {
-			for (const item of probe) {
-				if (item === languageId) {
-					return Validate.probe;
-				}
+		if (this.isProbed(textDocument.uri, languageId)) {
+			return { validate: Validate.probe, reason: `\`${languageId}\` is listed in \`eslint.probe\`. The server probes whether the ESLint configuration supports the document.`, probeFailed: false };
+		}
+
+		const folder = textDocument.uri.scheme === 'file' ? Workspace.getWorkspaceFolder(textDocument.uri) : undefined;
+		if (folder !== undefined && this.flatConfigFolders.has(folder.uri.toString())) {
+			if (!Validator.pluginLanguageIds.has(languageId) && config.get<Record<string, LanguageSettings>>('languages', {})[languageId] === undefined) {
+				return { validate: Validate.off, reason: `The workspace folder uses a flat configuration but no language plugin is known for \`${languageId}\`. List it in \`eslint.probe\` or \`eslint.languages\` to probe it.`, probeFailed: false };
+			}
+			if (this.flatConfigProbeFailed.has(`${folder.uri.toString()}#${languageId}`)) {
+				return { validate: Validate.off, reason: `Probing \`${languageId}\` documents of the workspace folder failed before. Probes are repeated when a configuration file changes.`, probeFailed: true };
 			}
+			return { validate: Validate.probe, reason: `The workspace folder uses a flat configuration. The server probes whether it lints \`${languageId}\` documents.`, probeFailed: false };
 		}
 
-		return Validate.off;
+		return { validate: Validate.off, reason: `\`${languageId}\` is neither listed in \`eslint.validate\` nor in \`eslint.probe\`.`, probeFailed: false };
+	}
+
+	private isProbed(uri: Uri, languageId: string): boolean {
+		const probe: string[] | undefined = Workspace.getConfiguration('eslint', uri).get<string[]>('probe');
+		return Array.isArray(probe) && probe.includes(languageId);
+	}
+
+	/**
+	 * Returns the language ids ESLint validates and the ones it probes for the given
+	 * resource.
+	 */
+	public getLanguageIds(resource: Uri): { languageIds: string[]; probeLanguageIds: string[] } {
+		const config = Workspace.getConfiguration('eslint', resource);
+		if (!config.get<boolean>('enable', true)) {
+			return { languageIds: [], probeLanguageIds: [] };
+		}
+		const validate = config.get<((ValidateItem | string)[]) | null>('validate', null);
+		if (Array.isArray(validate)) {
+			const result: string[] = [];
+			for (const item of validate) {
+				if (Is.string(item)) {
+					result.push(item);
+				} else if (ValidateItem.is(item)) {
+					result.push(item.language);
+				}
+			}
+			return { languageIds: result, probeLanguageIds: [] };
+		}
+		const probe: string[] | undefined = config.get<string[]>('probe');
+		return { languageIds: [], probeLanguageIds: Array.isArray(probe) ? probe.filter(item => Is.string(item)) : [] };
 	}
 }
 
@@ -140,6 +228,10 @@ export namespace ESLintClient {
 		const packageJsonFilter: VDocumentFilter = { scheme: 'file', pattern: '**/package.json' };
 		const configFileFilter: VDocumentFilter = { scheme: 'file', pattern: '**/{.eslintr{c.js,c.yaml,c.yml,c,c.json},eslint.confi{g.js,g.mjs,g.cjs}}' };
 		const supportedQuickFixKinds: Set<string> = new Set([CodeActionKind.Source.value, CodeActionKind.SourceFixAll.value, `${CodeActionKind.SourceFixAll.value}.eslint`, CodeActionKind.QuickFix.value]);
+		for (const fixType of ['problem', 'suggestion', 'layout', 'directive']) {
+			supportedQuickFixKinds.add(`${CodeActionKind.SourceFixAll.value}.eslint.${fixType}`);
+		}
+		supportedQuickFixKinds.add(`${CodeActionKind.Source.value}.removeUnusedDisableDirectives.eslint`);
 
 		// A map of documents synced to the server
 		const syncedDocuments: Map<string, TextDocument> = new Map();
@@ -172,6 +264,8 @@ export namespace ESLintClient {
 		type StatusInfo = Omit<Omit<StatusParams, 'uri'>, 'validationTime'> & {
 		};
 		const documentStatus: Map<string, StatusInfo> = new Map();
+		// The reason of a failed validation currently shown as the language status detail.
+		let shownReasonDetail: string | undefined;
 		const performanceStatus: Map<string, PerformanceStatus> = new Map();
 
 		// If the workspace configuration changes we need to update the synced documents since the
@@ -229,7 +323,7 @@ export namespace ESLintClient {
 				].join('\n'));
 			}
 
-			updateDocumentStatus({ uri: params.document.uri, state: Status.error });
+			updateDocumentStatus({ uri: params.document.uri, state: Status.error, reason: StatusReason.noConfig });
 			return {};
 		});
 
@@ -274,9 +368,15 @@ export namespace ESLintClient {
 				if (!state.workspaces[workspaceFolder.uri.toString()]) {
 					state.workspaces[workspaceFolder.uri.toString()] = true;
 					void context.globalState.update(key, state);
-					void Window.showInformationMessage(`Failed to load the ESLint library for the document ${uri.fsPath}. See the output for more information.`, outputItem).then((item) => {
+					const installItem: ButtonItem = {
+						title: 'Install ESLint',
+						id: 2
+					};
+					void Window.showInformationMessage(`Failed to load the ESLint library for the document ${uri.fsPath}. See the output for more information.`, outputItem, installItem).then((item) => {
 						if (item && item.id === 1) {
 							client.outputChannel.show(true);
+						} else if (item && item.id === 2) {
+							void installPackages(['eslint'], uri, uri.scheme === 'file' ? path.dirname(uri.fsPath) : workspaceFolder.uri.fsPath);
 						}
 					});
 				}
@@ -300,14 +400,53 @@ export namespace ESLintClient {
 			return {};
 		});
 
+		client.onRequest(MissingModuleRequest.type, (params) => {
+			const uri: Uri = Uri.parse(params.source.uri);
+			const workspaceFolder = Workspace.getWorkspaceFolder(uri);
+			interface ButtonItem extends MessageItem {
+				id: number;
+			}
+			const items: ButtonItem[] = [{ title: 'Go to output', id: 1 }];
+			if (workspaceFolder !== undefined && isPackageName(params.module)) {
+				items.push({ title: `Install ${params.module}`, id: 2 });
+			}
+			const referrer = params.configFile !== undefined ? Workspace.asRelativePath(params.configFile) : 'the ESLint configuration';
+			void Window.showWarningMessage(`The package ${params.module} used by ${referrer} isn't installed.`, ...items).then((item) => {
+				if (item && item.id === 1) {
+					client.outputChannel.show(true);
+				} else if (item && item.id === 2 && workspaceFolder !== undefined) {
+					// Install the package next to the configuration that uses it.
+					const directory = params.configFile !== undefined
+						? path.dirname(params.configFile)
+						: uri.scheme === 'file' ? path.dirname(uri.fsPath) : workspaceFolder.uri.fsPath;
+					void installPackages([params.module], uri, directory);
+				}
+			});
+			return {};
+		});
+
 		client.onRequest(OpenESLintDocRequest.type, async (params) => {
 			await commands.executeCommand('vscode.open', Uri.parse(params.url));
 			return {};
 		});
 
+		client.onNotification(ProbeSucceededNotification.type, (params) => {
+			const uri = client.protocol2CodeConverter.asUri(params.textDocument.uri);
+			if (!validator.addProbeSucceeded(uri, params.flatConfig)) {
+				return;
+			}
+			// Documents of languages not listed in `eslint.probe` are probed now as well.
+			const openFeature = client.getFeature(DidOpenTextDocumentNotification.method);
+			for (const document of Workspace.textDocuments) {
+				if (!syncedDocuments.has(document.uri.toString()) && validator.check(document) !== Validate.off) {
+					openFeature.getProvider(document)?.send(document).catch((error) => client.error(`Sending open notification failed.`, error));
+				}
+			}
+		});
+
 		client.onRequest(ProbeFailedRequest.type, (params) => {
 			const uri = client.protocol2CodeConverter.asUri(params.textDocument.uri);
-			validator.add(uri);
+			validator.add(uri, Workspace.textDocuments.find(document => document.uri.toString() === uri.toString())?.languageId);
 			const closeFeature = client.getFeature(DidCloseTextDocumentNotification.method);
 			const diagnosticsFeature = client.getFeature(DocumentDiagnosticRequest.method);
 			for (const document of Workspace.textDocuments) {
@@ -341,6 +480,10 @@ export namespace ESLintClient {
 			} else if (event.newState === State.Running) {
 				client.info(running);
 				serverRunning = true;
+				sendActiveTextDocument();
+				for (const document of Workspace.textDocuments) {
+					void checkLanguageSupport(document);
+				}
 			} else {
 				client.info(stopped);
 				serverRunning = false;
@@ -348,12 +491,36 @@ export namespace ESLintClient {
 			updateStatusBar(undefined);
 		});
 
+		// Reports like the effective configuration are shown as read-only documents.
+		const virtualDocumentScheme = 'eslint';
+		const virtualDocuments: Map<string, string> = new Map();
+		const onDidChangeVirtualDocument = new EventEmitter<Uri>();
+
+		// Languages the extension doesn't validate are checked once per workspace folder.
+		const checkedLanguages: Set<string> = new Set();
+		const ignoredLanguagesKey = 'eslint.ignoredLanguages';
+
 		context.subscriptions.push(
+			onDidChangeVirtualDocument,
+			Workspace.registerTextDocumentContentProvider(virtualDocumentScheme, {
+				onDidChange: onDidChangeVirtualDocument.event,
+				provideTextDocumentContent: (uri) => virtualDocuments.get(uri.toString()) ?? ''
+			}),
 			Window.onDidChangeActiveTextEditor(() => {
+				// Registered before the client starts. So the server knows about the new
+				// active document before the client pulls diagnostics for it.
+				sendActiveTextDocument();
 				updateStatusBar(undefined);
 			}),
+			Workspace.onDidOpenTextDocument((document) => {
+				void checkLanguageSupport(document);
+			}),
 			Workspace.onDidCloseTextDocument((document) => {
 				const uri = document.uri.toString();
+				if (document.uri.scheme === virtualDocumentScheme) {
+					virtualDocuments.delete(uri);
+					return;
+				}
 				documentStatus.delete(uri);
 				updateLanguageStatusSelector();
 				updateStatusBar(undefined);
@@ -375,11 +542,287 @@ export namespace ESLintClient {
 				client.sendRequest(ExecuteCommandRequest.type, params).then(undefined, () => {
 					void Window.showErrorMessage('Failed to apply ESLint fixes to the document. Please consider opening an issue with steps to reproduce.');
 				});
+			}),
+			commands.registerCommand('eslint.showEffectiveConfig', async () => {
+				const textEditor = Window.activeTextEditor;
+				if (!textEditor) {
+					return;
+				}
+				const document = textEditor.document;
+				const fileName = path.basename(document.uri.path);
+				await client.start();
+				let result: EffectiveConfigResult | null;
+				try {
+					result = await client.sendRequest(EffectiveConfigRequest.type, { textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) } });
+				} catch (error) {
+					void Window.showErrorMessage(`Failed to compute the ESLint configuration for ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+					return;
+				}
+				if (result === null) {
+					void Window.showInformationMessage(`ESLint doesn't validate ${fileName}.`);
+					return;
+				}
+				const uri = setVirtualDocument(`${fileName}.eslint-config.json`, document.uri, JSON.stringify(result, undefined, 2));
+				await Window.showTextDocument(await Workspace.openTextDocument(uri), { preview: true });
+			}),
+			commands.registerCommand('eslint.explainFile', async () => {
+				const textEditor = Window.activeTextEditor;
+				if (!textEditor) {
+					return;
+				}
+				const document = textEditor.document;
+				const explanation = validator.explain(document);
+				await client.start();
+				let result: ExplainFileResult;
+				try {
+					result = await client.sendRequest(ExplainFileRequest.type, {
+						textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) },
+						languageId: document.languageId,
+						// Let the server probe again to explain why probing failed.
+						validate: explanation.validate === Validate.probe || explanation.probeFailed ? Validate.probe : Validate.on
+					});
+				} catch (error) {
+					void Window.showErrorMessage(`Failed to explain how ESLint validates ${path.basename(document.uri.path)}: ${error instanceof Error ? error.message : String(error)}`);
+					return;
+				}
+				const uri = setVirtualDocument(`${path.basename(document.uri.path)}.eslint-explanation.md`, document.uri, createFileExplanation(document, explanation, result));
+				await commands.executeCommand('markdown.showPreview', uri);
+			}),
+			commands.registerCommand('eslint.fixWorkspace', async (ruleIds?: string[]) => {
+				const folders = Workspace.workspaceFolders;
+				if (folders === undefined || folders.length === 0) {
+					void Window.showErrorMessage('ESLint can only fix problems if VS Code is opened on a workspace folder.');
+					return;
+				}
+				const folder = await pickFolder(folders, 'Pick a folder to fix ESLint problems in');
+				if (folder === undefined) {
+					return;
+				}
+				if (!Array.isArray(ruleIds)) {
+					const input = await Window.showInputBox({
+						title: `Fix ESLint problems in ${folder.name}`,
+						prompt: 'The rules to fix separated by comma. Leave empty to fix the problems of all rules.',
+						placeHolder: 'e.g. prefer-const, no-var'
+					});
+					if (input === undefined) {
+						return;
+					}
+					ruleIds = input.split(',').map(ruleId => ruleId.trim()).filter(ruleId => ruleId.length > 0);
+				}
+				await executeWorkspaceCommand('eslint.applyWorkspaceFixes', { folder: client.code2ProtocolConverter.asUri(folder.uri), ruleIds }, 'Failed to apply ESLint fixes to the workspace folder.');
+			}),
+			commands.registerCommand('eslint.removeUnusedDisableDirectivesInWorkspace', async () => {
+				const folders = Workspace.workspaceFolders;
+				if (folders === undefined || folders.length === 0) {
+					void Window.showErrorMessage('ESLint can only remove unused directives if VS Code is opened on a workspace folder.');
+					return;
+				}
+				const folder = await pickFolder(folders, 'Pick a folder to remove unused eslint-disable directives in');
+				if (folder === undefined) {
+					return;
+				}
+				await executeWorkspaceCommand('eslint.applyWorkspaceFixes', { folder: client.code2ProtocolConverter.asUri(folder.uri), unusedDirectives: true, preview: true }, 'Failed to apply ESLint fixes to the workspace folder.');
+			}),
+			commands.registerCommand('eslint.pruneSuppressions', async () => {
+				const folders = Workspace.workspaceFolders;
+				if (folders === undefined || folders.length === 0) {
+					void Window.showErrorMessage('ESLint can only prune suppressions if VS Code is opened on a workspace folder.');
+					return;
+				}
+				const folder = await pickFolder(folders, 'Pick a folder to prune ESLint suppressions in');
+				if (folder === undefined) {
+					return;
+				}
+				const pruned = await executeWorkspaceCommand('eslint.applyPruneSuppressions', { folder: client.code2ProtocolConverter.asUri(folder.uri) }, 'Failed to prune the ESLint suppressions of the workspace folder.');
+				if (typeof pruned === 'number') {
+					void Window.showInformationMessage(pruned > 0 ? `Pruned ${pruned} obsolete ESLint suppressions in ${folder.name}.` : `There are no obsolete ESLint suppressions in ${folder.name}.`);
+				}
+			}),
+			commands.registerCommand('eslint.createSuppressionsBaseline', async () => {
+				const folders = Workspace.workspaceFolders;
+				if (folders === undefined || folders.length === 0) {
+					void Window.showErrorMessage('ESLint can only create a suppressions baseline if VS Code is opened on a workspace folder.');
+					return;
+				}
+				const folder = await pickFolder(folders, 'Pick a folder to suppress the current ESLint errors in');
+				if (folder === undefined) {
+					return;
+				}
+				const suppressed = await executeWorkspaceCommand('eslint.applySuppressionsBaseline', { folder: client.code2ProtocolConverter.asUri(folder.uri) }, 'Failed to create the ESLint suppressions baseline of the workspace folder.');
+				if (typeof suppressed === 'number') {
+					void Window.showInformationMessage(`Suppressed ${suppressed} ESLint errors in ${folder.name}.`);
+				}
 			})
 		);
 
 		return [client, acknowledgePerformanceStatus];
 
+		async function executeWorkspaceCommand<T extends { folder: string }>(command: string, args: T, failureMessage: string): Promise<unknown> {
+			await client.start();
+			const workDoneToken = randomUUID();
+			const params: ExecuteCommandParams = {
+				command,
+				arguments: [args],
+				workDoneToken
+			};
+			return Window.withProgress({ location: ProgressLocation.Notification, title: 'ESLint', cancellable: true }, async (progress, token) => {
+				let percentage: number = 0;
+				const listener = client.onProgress(WorkDoneProgress.type, workDoneToken, (value) => {
+					if (value.kind === 'end') {
+						return;
+					}
+					const increment = value.percentage !== undefined ? value.percentage - percentage : undefined;
+					percentage = value.percentage ?? percentage;
+					progress.report({ message: value.kind === 'begin' ? `${value.title} ${value.message ?? ''}` : value.message, increment });
+				});
+				try {
+					return await client.sendRequest(ExecuteCommandRequest.type, params, token);
+				} catch (error) {
+					if (!token.isCancellationRequested) {
+						void Window.showErrorMessage(`${failureMessage} Please consider opening an issue with steps to reproduce.`);
+					}
+					return undefined;
+				} finally {
+					listener.dispose();
+				}
+			});
+		}
+
+		// The bulk suppressions files ESLint reads. Custom locations are picked up when the
+		// client starts.
+		function getSuppressionsGlobs(): string[] {
+			const result: Set<string> = new Set(['**/eslint-suppressions.json']);
+			for (const folder of Workspace.workspaceFolders ?? []) {
+				const location = Workspace.getConfiguration('eslint', folder.uri).get<string | undefined>('bulkSuppression.location', undefined);
+				if (location !== undefined && location.length > 0) {
+					result.add(`**/${path.basename(location)}`);
+				}
+			}
+			return Array.from(result);
+		}
+
+		/**
+		 * Asks the server whether the ESLint configuration lints a document the extension
+		 * doesn't validate and offers to enable ESLint for the document's language. Every
+		 * language is checked once per workspace folder.
+		 */
+		async function checkLanguageSupport(document: TextDocument): Promise<void> {
+			if (serverRunning !== true || document.uri.scheme !== 'file') {
+				return;
+			}
+			const config = Workspace.getConfiguration('eslint', document.uri);
+			if (!config.get<boolean>('enable', true)) {
+				return;
+			}
+			const explanation = validator.explain(document);
+			if (explanation.validate !== Validate.off || explanation.probeFailed) {
+				return;
+			}
+			const languageId = document.languageId;
+			const folder = Workspace.getWorkspaceFolder(document.uri);
+			const key = `${folder?.uri.toString() ?? ''}#${languageId}`;
+			if (checkedLanguages.has(key) || context.workspaceState.get<string[]>(ignoredLanguagesKey, []).includes(languageId)) {
+				return;
+			}
+			checkedLanguages.add(key);
+			let validated: boolean;
+			try {
+				validated = (await client.sendRequest(ProbeLanguageRequest.type, { textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) }, languageId })).validated;
+			} catch (error) {
+				client.error(`Probing the language ${languageId} failed.`, error);
+				return;
+			}
+			if (!validated) {
+				return;
+			}
+			const enableItem: MessageItem = { title: `Enable ESLint for ${languageId}` };
+			const ignoreItem: MessageItem = { title: 'Don\'t Ask Again' };
+			const item = await Window.showInformationMessage(`The ESLint configuration lints ${path.basename(document.uri.fsPath)} but the extension doesn't validate \`${languageId}\` documents.`, enableItem, ignoreItem);
+			if (item === enableItem) {
+				await enableLanguage(document.uri, languageId);
+			} else if (item === ignoreItem) {
+				await context.workspaceState.update(ignoredLanguagesKey, [...context.workspaceState.get<string[]>(ignoredLanguagesKey, []), languageId]);
+			}
+		}
+
+		/**
+		 * Adds the language to `eslint.validate` if it is set and to `eslint.probe` otherwise.
+		 * The setting is written to the most specific scope defining it. A setting that is
+		 * only defined by default is written to the workspace folder.
+		 */
+		async function enableLanguage(resource: Uri, languageId: string): Promise<void> {
+			const config = Workspace.getConfiguration('eslint', resource);
+			const section = Array.isArray(config.get<(ValidateItem | string)[] | null>('validate', null)) ? 'validate' : 'probe';
+			const inspect = config.inspect<(ValidateItem | string)[]>(section);
+			let target: ConfigurationTarget;
+			let value: (ValidateItem | string)[] | undefined;
+			if (inspect?.workspaceFolderValue !== undefined) {
+				[target, value] = [ConfigurationTarget.WorkspaceFolder, inspect.workspaceFolderValue];
+			} else if (inspect?.workspaceValue !== undefined) {
+				[target, value] = [ConfigurationTarget.Workspace, inspect.workspaceValue];
+			} else if (inspect?.globalValue !== undefined) {
+				[target, value] = [ConfigurationTarget.Global, inspect.globalValue];
+			} else if (Workspace.getWorkspaceFolder(resource) !== undefined) {
+				target = Workspace.workspaceFile !== undefined ? ConfigurationTarget.WorkspaceFolder : ConfigurationTarget.Workspace;
+				value = inspect?.defaultValue;
+			} else {
+				[target, value] = [ConfigurationTarget.Global, inspect?.defaultValue];
+			}
+			try {
+				await config.update(section, [...(value ?? []), languageId], target);
+			} catch (error) {
+				client.error(`Adding ${languageId} to eslint.${section} failed.`, error);
+				void Window.showErrorMessage(`Failed to enable ESLint for ${languageId}. See the output for more information.`);
+			}
+		}
+
+		function setVirtualDocument(name: string, source: Uri, content: string): Uri {
+			const uri = Uri.from({ scheme: virtualDocumentScheme, path: `/${name}`, query: source.toString() });
+			virtualDocuments.set(uri.toString(), content);
+			onDidChangeVirtualDocument.fire(uri);
+			return uri;
+		}
+
+		function createFileExplanation(document: TextDocument, explanation: { validate: Validate; reason: string }, result: ExplainFileResult): string {
+			const lines: string[] = [];
+			const yesNo = (value: boolean | null) => value === null ? 'unknown' : value ? 'yes' : 'no';
+			lines.push(`# ESLint: ${path.basename(document.uri.path)}`, '');
+			lines.push(`- File: \`${result.filePath ?? document.uri.toString()}\``);
+			lines.push(`- Language: \`${document.languageId}\``, '');
+			lines.push('## Extension settings', '');
+			lines.push(`${explanation.reason} Outcome: \`${explanation.validate}\`.`, '');
+			lines.push('## ESLint server', '');
+			for (const step of result.steps) {
+				lines.push(`- ${step}`);
+			}
+			lines.push(`- ESLint library: ${result.libraryPath !== null ? `\`${result.libraryPath}\`` : 'not loaded'}`);
+			lines.push(`- Working directory: ${result.workingDirectory !== null ? `\`${result.workingDirectory}\`` : 'unknown'}`);
+			lines.push(`- Configuration type: ${result.configType ?? 'unknown'}`);
+			lines.push(`- Ignored by ESLint (\`isPathIgnored\`): ${yesNo(result.isIgnored)}`, '');
+			lines.push('## Result', '');
+			if (explanation.validate === Validate.off) {
+				lines.push('ESLint doesn\'t validate the file because of the extension settings.');
+			} else if (result.validate !== Validate.on) {
+				lines.push('ESLint doesn\'t validate the file. See the ESLint server section for the reason.');
+			} else if (result.isIgnored === true) {
+				lines.push('ESLint validates the file but ignores it. Problems are only reported if `eslint.onIgnoredFiles` is not `off`.');
+			} else {
+				lines.push('ESLint validates the file.');
+			}
+			lines.push('');
+			return lines.join('\n');
+		}
+
+		function sendActiveTextDocument(): void {
+			if (!client.isRunning()) {
+				return;
+			}
+			const activeTextDocument = Window.activeTextEditor?.document;
+			void client.sendNotification(ActiveTextDocumentNotification.type, {
+				textDocument: activeTextDocument !== undefined ? { uri: client.code2ProtocolConverter.asUri(activeTextDocument.uri) } : undefined
+			});
+		}
+
 		function getCurrentServerWorkingDirectory(): string {
 			if (!Workspace.isTrusted) {
 				return process.cwd();
@@ -421,6 +864,20 @@ export namespace ESLintClient {
 			return result;
 		}
 
+		function isWorkspaceDiagnosticsEnabled(): boolean {
+			// The server announces workspace diagnostics when it starts. So changing
+			// the setting requires a server restart.
+			if (Workspace.getConfiguration('eslint').get<boolean>('workspaceDiagnostics.enable', false)) {
+				return true;
+			}
+			for (const folder of Workspace.workspaceFolders ?? []) {
+				if (Workspace.getConfiguration('eslint', folder.uri).get<boolean>('workspaceDiagnostics.enable', false)) {
+					return true;
+				}
+			}
+			return false;
+		}
+
 		function sanitize<T, D>(value: T, type: 'bigint' | 'boolean' | 'function' | 'number' | 'object' | 'string' | 'symbol' | 'undefined', def: D): T | D {
 			if (Array.isArray(value)) {
 				return value.filter(item => typeof item === type) as unknown as T;
@@ -435,14 +892,17 @@ export namespace ESLintClient {
 				documentSelector: [{ scheme: 'file' }, { scheme: 'untitled' }],
 				revealOutputChannelOn: RevealOutputChannelOn.Never,
 				initializationOptions: {
-				},
+					workspaceDiagnostics: isWorkspaceDiagnosticsEnabled()
+				} satisfies InitializationOptions,
 				progressOnInitialization: true,
 				synchronize: {
 					fileEvents: [
 						Workspace.createFileSystemWatcher('**/.eslintr{c.js,c.cjs,c.yaml,c.yml,c,c.json}'),
 						Workspace.createFileSystemWatcher('**/eslint.config.{js,mjs,cjs,ts,mts,cts}'),
 						Workspace.createFileSystemWatcher('**/.eslintignore'),
-						Workspace.createFileSystemWatcher('**/package.json')
+						Workspace.createFileSystemWatcher('**/package.json'),
+						Workspace.createFileSystemWatcher('**/{pnpm-workspace.yaml,lerna.json,nx.json,rush.json}'),
+						...getSuppressionsGlobs().map(glob => Workspace.createFileSystemWatcher(glob))
 					]
 				},
 				initializationFailedHandler: (error) => {
@@ -515,6 +975,23 @@ export namespace ESLintClient {
 							return next(document);
 						}
 					},
+					executeCommand: async (command, args, next) => {
+						// The description is asked for before the command is sent. The server
+						// handles one request at a time and shouldn't wait for the user.
+						if (command === 'eslint.disableRuleWithDescription') {
+							const ruleId: unknown = args[0]?.problem?.ruleId;
+							const description = await Window.showInputBox({
+								title: Is.string(ruleId) ? `Disable ${ruleId}` : 'Disable rule',
+								prompt: 'Describe why the rule is disabled. The description is added to the disable comment.',
+								validateInput: (value) => value.trim().length === 0 ? 'A description is required.' : undefined
+							});
+							if (description === undefined) {
+								return null;
+							}
+							return next(command, [args[0], description.trim()]);
+						}
+						return next(command, args);
+					},
 					notebooks: {
 						didOpen: (notebookDocument, cells, next) => {
 							const result = next(notebookDocument, cells);
@@ -579,6 +1056,16 @@ export namespace ESLintClient {
 						}
 						return result;
 					},
+					provideHover: async (document, position, token, next) => {
+						if (!syncedDocuments.has(document.uri.toString())) {
+							return undefined;
+						}
+						// Only ask the server if an ESLint problem is shown at the position.
+						if (!Languages.getDiagnostics(document.uri).some(diagnostic => diagnostic.source === 'eslint' && diagnostic.range.contains(position))) {
+							return undefined;
+						}
+						return next(document, position, token);
+					},
 					workspace: {
 						didChangeWatchedFile: (event, next) => {
 							validator.clear();
@@ -614,6 +1101,47 @@ export namespace ESLintClient {
 			return clientOptions;
 		}
 
+		/**
+		 * Installs packages as development dependencies of the project containing the
+		 * given directory using a task. ESLint revalidates all documents afterwards.
+		 */
+		async function installPackages(packages: string[], resource: Uri, directory: string): Promise<void> {
+			const invalid = packages.filter(item => !isPackageName(item));
+			if (invalid.length > 0) {
+				client.error(`Refusing to install ${invalid.join(', ')}: not a valid npm package name.`);
+				return;
+			}
+			const workspaceFolder = Workspace.getWorkspaceFolder(resource);
+			const project = await findPackageProject(directory, workspaceFolder?.uri.fsPath ?? directory);
+			const packageManager = project.packageManager ?? await getPackageManager(resource);
+			// Passing the arguments separately lets VS Code quote them for the shell.
+			const { command, args } = getInstallCommand(packageManager, packages, await isWorkspaceRoot(project.directory, packageManager));
+			const task = new Task(
+				{ type: 'eslint' }, workspaceFolder ?? TaskScope.Workspace, `install ${packages.join(' ')}`, 'eslint',
+				new ShellExecution(command, args, { cwd: project.directory })
+			);
+			const exitCode = new Promise<number | undefined>((resolve) => {
+				const listener = Tasks.onDidEndTaskProcess((event) => {
+					if (event.execution.task === task) {
+						listener.dispose();
+						resolve(event.exitCode);
+					}
+				});
+			});
+			try {
+				await Tasks.executeTask(task);
+			} catch (error) {
+				client.error(`Failed to install ${packages.join(', ')}`, error);
+				return;
+			}
+			if (await exitCode !== 0) {
+				void Window.showErrorMessage(`Installing ${packages.join(', ')} failed. See the terminal for details.`);
+				return;
+			}
+			client.info(`Installed ${packages.join(', ')} in ${project.directory} using ${packageManager}.`);
+			await client.sendNotification(PackagesInstalledNotification.type);
+		}
+
 		async function getPackageManager(uri: Uri) {
 			const userProvidedPackageManager:PackageManagers = Workspace.getConfiguration('eslint', uri).get('packageManager', 'npm');
 			const detectedPackageManager = await commands.executeCommand<PackageManagers>('npm.packageManager');
@@ -695,6 +1223,7 @@ export namespace ESLintClient {
 					packageManager: config.get<PackageManagers>('packageManager', 'npm'),
 					useESLintClass: config.get<boolean>('useESLintClass', false),
 					useFlatConfig: useFlatConfig === null ? undefined : useFlatConfig,
+					configLookup: config.get<ConfigLookupValues>('configLookup', 'auto'),
 					useRealpaths: config.get<boolean>('useRealpaths', false),
 					experimental: (useExperimentalFlatConfig === true) ? {
 						useFlatConfig: useExperimentalFlatConfig,
@@ -709,6 +1238,11 @@ export namespace ESLintClient {
 						location: config.get<string | undefined>('bulkSuppression.location', undefined),
 						severity: config.get<string>('bulkSuppression.severity', 'info') as ConfigurationSettings['bulkSuppression']['severity'],
 					},
+					workspaceDiagnostics: {
+						enable: config.get<boolean>('workspaceDiagnostics.enable', false),
+						...validator.getLanguageIds(resource)
+					},
+					languages: config.get<Record<string, LanguageSettings>>('languages', {}),
 					onIgnoredFiles: ESLintSeverity.from(config.get<string>('onIgnoredFiles', ESLintSeverity.off)),
 					options: config.get<ESLintOptions>('options', {}),
 					rulesCustomizations: getRuleCustomizations(config, resource),
@@ -720,16 +1254,14 @@ export namespace ESLintClient {
 					workingDirectory: undefined,
 					workspaceFolder: undefined,
 					codeAction: {
-						disableRuleComment: config.get<CodeActionSettings['disableRuleComment']>('codeAction.disableRuleComment', { enable: true, location: 'separateLine' as const, commentStyle: 'line' as const }),
+						disableRuleComment: config.get<CodeActionSettings['disableRuleComment']>('codeAction.disableRuleComment', { enable: true, location: 'separateLine' as const, commentStyle: 'line' as const, requireDescription: false }),
 						showDocumentation: config.get<CodeActionSettings['showDocumentation']>('codeAction.showDocumentation', { enable: true })
 					}
 				};
+				// The server also asks for the configuration of files on disk that aren't open,
+				// e.g. to lint the workspace. Only the working directory is resolved for them.
 				const document: TextDocument | undefined = syncedDocuments.get(item.scopeUri);
-				if (document === undefined) {
-					result.push(settings);
-					continue;
-				}
-				if (config.get<boolean>('enabled', true)) {
+				if (document !== undefined && config.get<boolean>('enabled', true)) {
 					settings.validate = validator.check(document);
 				}
 				if (settings.validate !== Validate.off) {
@@ -774,7 +1306,7 @@ export namespace ESLintClient {
 
 						let itemValue: string | undefined;
 						if (directory !== undefined || pattern !== undefined) {
-							const filePath = document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+							const filePath = resource.scheme === 'file' ? resource.fsPath : undefined;
 							if (filePath !== undefined) {
 								if (directory !== undefined) {
 									directory = toOSPath(directory);
@@ -864,7 +1396,7 @@ export namespace ESLintClient {
 
 		function updateDocumentStatus(params: StatusParams): void {
 			const needsSelectorUpdate = !documentStatus.has(params.uri);
-			documentStatus.set(params.uri, { state: params.state });
+			documentStatus.set(params.uri, { state: params.state, reason: params.reason, detail: params.detail });
 			if (needsSelectorUpdate) {
 				updateLanguageStatusSelector();
 			}
@@ -910,6 +1442,24 @@ export namespace ESLintClient {
 			updateStatusBar(activeTextDocument);
 		}
 
+		function getStatusReasonDetail(statusInfo: StatusInfo): string | undefined {
+			if (statusInfo.state === Status.ok) {
+				return undefined;
+			}
+			switch (statusInfo.reason) {
+				case StatusReason.noConfig:
+					return 'No ESLint configuration found';
+				case StatusReason.configError:
+					return statusInfo.detail !== undefined ? `Invalid ESLint configuration in ${Workspace.asRelativePath(statusInfo.detail)}` : 'Invalid ESLint configuration';
+				case StatusReason.missingModule:
+					return `Package ${statusInfo.detail} isn't installed`;
+				case StatusReason.unexpectedError:
+					return 'Validation failed. See the output for details';
+				default:
+					return undefined;
+			}
+		}
+
 		function updateStatusBar(textDocument: TextDocument | undefined) {
 			const activeTextDocument = textDocument ?? Window.activeTextEditor?.document;
 			if (activeTextDocument === undefined || serverRunning === false) {
@@ -984,9 +1534,17 @@ export namespace ESLintClient {
 				}
 			}
 
-			if (detail !== undefined && languageStatus.detail !== detail) {
+			const reasonDetail = getStatusReasonDetail(statusInfo);
+			if (reasonDetail !== undefined) {
+				if (languageStatus.detail !== reasonDetail) {
+					languageStatus.detail = reasonDetail;
+				}
+			} else if (detail !== undefined && languageStatus.detail !== detail) {
 				languageStatus.detail = detail;
+			} else if (shownReasonDetail !== undefined && languageStatus.detail === shownReasonDetail) {
+				languageStatus.detail = '';
 			}
+			shownReasonDetail = reasonDetail;
 			if (languageStatus.severity !== severity) {
 				languageStatus.severity = severity;
 			}
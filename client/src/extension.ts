@@ -109,6 +109,12 @@ export function activate(context: ExtensionContext) {
 	};
 	onActivateCommands = [
 		Commands.registerCommand('eslint.executeAutofix', notValidating),
+		Commands.registerCommand('eslint.showEffectiveConfig', notValidating),
+		Commands.registerCommand('eslint.explainFile', notValidating),
+		Commands.registerCommand('eslint.fixWorkspace', notValidating),
+		Commands.registerCommand('eslint.removeUnusedDisableDirectivesInWorkspace', notValidating),
+		Commands.registerCommand('eslint.pruneSuppressions', notValidating),
+		Commands.registerCommand('eslint.createSuppressionsBaseline', notValidating),
 		Commands.registerCommand('eslint.showOutputChannel', notValidating),
 		Commands.registerCommand('eslint.migrateSettings', notValidating),
 		Commands.registerCommand('eslint.restart', notValidating),
@@ -6,6 +6,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { PackageManagers } from './shared/settings';
+
 export namespace Is {
 	const toString = Object.prototype.toString;
 
@@ -76,6 +78,118 @@ function existFile(file: string): Promise<boolean> {
 	});
 }
 
+const lockFiles: [string, PackageManagers][] = [
+	['package-lock.json', 'npm'],
+	['npm-shrinkwrap.json', 'npm'],
+	['yarn.lock', 'yarn'],
+	['pnpm-lock.yaml', 'pnpm']
+];
+
+/**
+ * The project packages get installed in.
+ */
+export type PackageProject = {
+	/**
+	 * The closest directory containing a package.json.
+	 */
+	directory: string;
+
+	/**
+	 * The package manager named in the `packageManager` field of a package.json
+	 * or the one whose lockfile is closest.
+	 */
+	packageManager: PackageManagers | undefined;
+};
+
+/**
+ * Finds the project a directory belongs to. Parent directories are searched up to
+ * the given root since workspaces usually have their lockfile at the top.
+ *
+ * @param directory the directory to start in.
+ * @param root the last directory to search, usually the workspace folder.
+ */
+export async function findPackageProject(directory: string, root: string): Promise<PackageProject> {
+	let result: string | undefined;
+	let current: string | undefined = directory;
+	while (current !== undefined) {
+		const packageJson = await readJsonFile(path.join(current, 'package.json'));
+		if (packageJson !== undefined) {
+			result = result ?? current;
+			const packageManager = Is.string(packageJson.packageManager) ? /^(npm|yarn|pnpm)@/.exec(packageJson.packageManager) : null;
+			if (packageManager !== null) {
+				return { directory: result, packageManager: packageManager[1] as PackageManagers };
+			}
+		}
+		for (const [fileName, packageManager] of lockFiles) {
+			if (await existFile(path.join(current, fileName))) {
+				return { directory: result ?? current, packageManager };
+			}
+		}
+		const parent = path.dirname(current);
+		current = current !== root && parent !== current && isSubPath(root, parent) ? parent : undefined;
+	}
+	return { directory: result ?? directory, packageManager: undefined };
+}
+
+// The grammar of npm package names, e.g. `eslint-plugin-react` or `@scope/name`.
+const packageNameRegExp: RegExp = /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Checks whether a string is a valid npm package name. Package names are taken from
+ * ESLint's error messages, so they are checked before they are passed to a shell.
+ */
+export function isPackageName(value: string): boolean {
+	return value.length <= 214 && packageNameRegExp.test(value);
+}
+
+/**
+ * Tests whether a directory is the root of a pnpm or yarn workspace. Both refuse to add
+ * dependencies to the root of a workspace unless asked to explicitly.
+ */
+export async function isWorkspaceRoot(directory: string, packageManager: PackageManagers): Promise<boolean> {
+	switch (packageManager) {
+		case 'pnpm':
+			return existFile(path.join(directory, 'pnpm-workspace.yaml'));
+		case 'yarn': {
+			const packageJson = await readJsonFile(path.join(directory, 'package.json'));
+			// Only yarn classic knows the flag. Later versions are configured using .yarnrc.yml.
+			const classic = !(Is.string(packageJson?.packageManager) && /^yarn@(?:[2-9]|\d{2,})/.test(packageJson.packageManager)) && !await existFile(path.join(directory, '.yarnrc.yml'));
+			return packageJson?.workspaces !== undefined && classic;
+		}
+		default:
+			return false;
+	}
+}
+
+/**
+ * Returns the command and its arguments that install packages as development dependencies.
+ *
+ * @param workspaceRoot whether the packages get installed in the root of a workspace.
+ */
+export function getInstallCommand(packageManager: PackageManagers, packages: string[], workspaceRoot: boolean = false): { command: string; args: string[] } {
+	switch (packageManager) {
+		case 'yarn':
+			return { command: 'yarn', args: ['add', '--dev', ...(workspaceRoot ? ['-W'] : []), ...packages] };
+		case 'pnpm':
+			return { command: 'pnpm', args: ['add', '--save-dev', ...(workspaceRoot ? ['-w'] : []), ...packages] };
+		default:
+			return { command: 'npm', args: ['install', '--save-dev', ...packages] };
+	}
+}
+
+function isSubPath(parent: string, child: string): boolean {
+	const relative = path.relative(parent, child);
+	return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+async function readJsonFile(file: string): Promise<any | undefined> {
+	try {
+		return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+	} catch {
+		return undefined;
+	}
+}
+
 // ----- Glob pattern parser
 
 enum NodeType {
@@ -0,0 +1,90 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { findPackageProject, getInstallCommand, isPackageName, isWorkspaceRoot } from '../node-utils';
+
+void describe('Package manager', () => {
+	let root: string;
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-package-manager-'));
+		fs.mkdirSync(path.join(root, 'packages', 'app', 'src'), { recursive: true });
+		fs.mkdirSync(path.join(root, 'other'), { recursive: true });
+		fs.writeFileSync(path.join(root, 'package.json'), '{}');
+		fs.writeFileSync(path.join(root, 'pnpm-lock.yaml'), '');
+		fs.writeFileSync(path.join(root, 'packages', 'app', 'package.json'), '{}');
+		fs.writeFileSync(path.join(root, 'other', 'package.json'), JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	void it('installs in the closest package using the lockfile of the workspace', async () => {
+		assert.deepStrictEqual(await findPackageProject(path.join(root, 'packages', 'app', 'src'), root), {
+			directory: path.join(root, 'packages', 'app'),
+			packageManager: 'pnpm'
+		});
+	});
+
+	void it('prefers the packageManager field', async () => {
+		assert.deepStrictEqual(await findPackageProject(path.join(root, 'other'), root), {
+			directory: path.join(root, 'other'),
+			packageManager: 'yarn'
+		});
+	});
+
+	void it('does not search above the root', async () => {
+		assert.deepStrictEqual(await findPackageProject(path.join(root, 'packages', 'app', 'src'), path.join(root, 'packages')), {
+			directory: path.join(root, 'packages', 'app'),
+			packageManager: undefined
+		});
+	});
+
+	void it('installs development dependencies', () => {
+		assert.deepStrictEqual(getInstallCommand('npm', ['eslint']), { command: 'npm', args: ['install', '--save-dev', 'eslint'] });
+		assert.deepStrictEqual(getInstallCommand('yarn', ['eslint-plugin-react']), { command: 'yarn', args: ['add', '--dev', 'eslint-plugin-react'] });
+		assert.deepStrictEqual(getInstallCommand('pnpm', ['eslint', 'globals']), { command: 'pnpm', args: ['add', '--save-dev', 'eslint', 'globals'] });
+	});
+
+	void it('installs in the root of pnpm workspaces', async () => {
+		const workspace = path.join(root, 'pnpm');
+		fs.mkdirSync(path.join(workspace, 'packages', 'app'), { recursive: true });
+		fs.writeFileSync(path.join(workspace, 'package.json'), '{}');
+		fs.writeFileSync(path.join(workspace, 'pnpm-workspace.yaml'), 'packages:\n  - packages/*\n');
+		fs.writeFileSync(path.join(workspace, 'packages', 'app', 'package.json'), '{}');
+		assert.strictEqual(await isWorkspaceRoot(workspace, 'pnpm'), true);
+		assert.strictEqual(await isWorkspaceRoot(path.join(workspace, 'packages', 'app'), 'pnpm'), false);
+		assert.deepStrictEqual(getInstallCommand('pnpm', ['eslint'], true), { command: 'pnpm', args: ['add', '--save-dev', '-w', 'eslint'] });
+	});
+
+	void it('installs in the root of yarn classic workspaces', async () => {
+		const workspace = path.join(root, 'yarn');
+		const berry = path.join(root, 'berry');
+		fs.mkdirSync(workspace, { recursive: true });
+		fs.mkdirSync(berry, { recursive: true });
+		fs.writeFileSync(path.join(workspace, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }));
+		fs.writeFileSync(path.join(berry, 'package.json'), JSON.stringify({ workspaces: ['packages/*'], packageManager: 'yarn@4.1.0' }));
+		assert.strictEqual(await isWorkspaceRoot(workspace, 'yarn'), true);
+		assert.strictEqual(await isWorkspaceRoot(berry, 'yarn'), false);
+		assert.strictEqual(await isWorkspaceRoot(workspace, 'npm'), false);
+		assert.deepStrictEqual(getInstallCommand('yarn', ['eslint'], true), { command: 'yarn', args: ['add', '--dev', '-W', 'eslint'] });
+	});
+
+	void it('accepts npm package names only', () => {
+		assert.ok(isPackageName('eslint-plugin-react'));
+		assert.ok(isPackageName('@typescript-eslint/eslint-plugin'));
+		assert.ok(!isPackageName('x$(touch pwned)'));
+		assert.ok(!isPackageName('x; rm -rf ~'));
+		assert.ok(!isPackageName('@scope/a/b'));
+		assert.ok(!isPackageName('Uppercase'));
+	});
+});
@@ -0,0 +1,194 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Tracks which open documents import each other. Type aware rules (for example the
+ * ones from `@typescript-eslint`) produce problems that depend on the content of
+ * imported files. Knowing the importers of a document allows to re-validate them
+ * when the document changes.
+ *
+ * The tracking is heuristic. Only relative module specifiers are resolved and only
+ * documents sharing the same working directory and TypeScript project are considered
+ * to depend on each other.
+ */
+export namespace Dependencies {
+
+	type Entry = {
+		filePath: string;
+		group: string;
+		imports: Set<string>;
+	};
+
+	const importPatterns: RegExp[] = [
+		// import x from 'y', import { x } from 'y', export * from 'y', import type { x } from 'y'
+		/\b(?:import|export)\s[^'";]*?\bfrom\s*['"]([^'"\n]+)['"]/g,
+		// import 'y'
+		/\bimport\s*['"]([^'"\n]+)['"]/g,
+		// import('y'), require('y'), import x = require('y')
+		/\b(?:import|require)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g
+	];
+
+	const extensions: string[] = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue'];
+
+	// TypeScript allows to import a `.ts` file using the `.js` extension.
+	const emittedExtensions: Map<string, string[]> = new Map([
+		['.js', ['.ts', '.tsx']],
+		['.jsx', ['.tsx']],
+		['.mjs', ['.mts']],
+		['.cjs', ['.cts']]
+	]);
+
+	const projectFiles: string[] = ['tsconfig.json', 'jsconfig.json'];
+
+	const uri2Entry: Map<string, Entry> = new Map();
+	const directory2Project: Map<string, string | null> = new Map();
+
+	/**
+	 * Returns the module specifiers imported or required by the given source text.
+	 */
+	export function parseImports(text: string): string[] {
+		const result: Set<string> = new Set();
+		for (const pattern of importPatterns) {
+			pattern.lastIndex = 0;
+			let match: RegExpExecArray | null;
+			while ((match = pattern.exec(text)) !== null) {
+				result.add(match[1]);
+			}
+		}
+		return Array.from(result);
+	}
+
+	/**
+	 * Resolves a relative module specifier against the file importing it. Bare
+	 * specifiers (e.g. packages) are not resolved.
+	 *
+	 * @param filePath the path of the importing file.
+	 * @param specifier the module specifier.
+	 * @param exists tests whether a file exists. Defaults to the file system.
+	 */
+	export function resolve(filePath: string, specifier: string, exists: (candidate: string) => boolean = isFile): string | undefined {
+		if (!specifier.startsWith('./') && !specifier.startsWith('../') && specifier !== '.' && specifier !== '..') {
+			return undefined;
+		}
+		const target = path.resolve(path.dirname(filePath), specifier);
+		const candidates: string[] = [target];
+		const extname = path.extname(target);
+		const emitted = emittedExtensions.get(extname);
+		if (emitted !== undefined) {
+			const base = target.substring(0, target.length - extname.length);
+			candidates.push(...emitted.map(ext => `${base}${ext}`));
+		}
+		candidates.push(...extensions.map(ext => `${target}${ext}`));
+		candidates.push(...extensions.map(ext => path.join(target, `index${ext}`)));
+		return candidates.find(exists);
+	}
+
+	/**
+	 * Finds the directory of the closest `tsconfig.json` or `jsconfig.json` file.
+	 */
+	export function findProject(filePath: string): string | undefined {
+		const visited: string[] = [];
+		let directory = path.dirname(filePath);
+		let result: string | null | undefined;
+		while (true) {
+			result = directory2Project.get(directory);
+			if (result !== undefined) {
+				break;
+			}
+			visited.push(directory);
+			if (projectFiles.some(file => isFile(path.join(directory, file)))) {
+				result = directory;
+				break;
+			}
+			const parent = path.dirname(directory);
+			if (parent === directory) {
+				result = null;
+				break;
+			}
+			directory = parent;
+		}
+		for (const item of visited) {
+			directory2Project.set(item, result);
+		}
+		return result ?? undefined;
+	}
+
+	/**
+	 * Computes the key of the group of documents that can depend on each other.
+	 *
+	 * @param filePath the path of the document.
+	 * @param workingDirectory the working directory ESLint runs in for the document.
+	 */
+	export function getGroup(filePath: string, workingDirectory: string | undefined): string {
+		return `${workingDirectory ?? ''}${path.delimiter}${findProject(filePath) ?? ''}`;
+	}
+
+	/**
+	 * Records the imports of an open document.
+	 */
+	export function update(uri: string, filePath: string, group: string, text: string): void {
+		const imports: Set<string> = new Set();
+		for (const specifier of parseImports(text)) {
+			const resolved = resolve(filePath, specifier);
+			if (resolved !== undefined) {
+				imports.add(resolved);
+			}
+		}
+		uri2Entry.set(uri, { filePath, group, imports });
+	}
+
+	export function remove(uri: string): boolean {
+		return uri2Entry.delete(uri);
+	}
+
+	export function clear(): void {
+		uri2Entry.clear();
+		directory2Project.clear();
+	}
+
+	/**
+	 * Returns the files imported by an open document.
+	 */
+	export function getImports(uri: string): ReadonlySet<string> {
+		return uri2Entry.get(uri)?.imports ?? new Set();
+	}
+
+	/**
+	 * Returns the open documents that directly or indirectly import the given
+	 * document.
+	 */
+	export function getDependents(uri: string): string[] {
+		const start = uri2Entry.get(uri);
+		if (start === undefined) {
+			return [];
+		}
+		const result: string[] = [];
+		const seen: Set<string> = new Set([uri]);
+		const queue: Entry[] = [start];
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			for (const [candidateUri, candidate] of uri2Entry) {
+				if (seen.has(candidateUri) || candidate.group !== start.group || !candidate.imports.has(current.filePath)) {
+					continue;
+				}
+				seen.add(candidateUri);
+				result.push(candidateUri);
+				queue.push(candidate);
+			}
+		}
+		return result;
+	}
+
+	function isFile(candidate: string): boolean {
+		try {
+			return fs.statSync(candidate).isFile();
+		} catch {
+			return false;
+		}
+	}
+}
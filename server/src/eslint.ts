@@ -13,18 +13,20 @@ import semverGte = require('semver/functions/gte');
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import {
 	Diagnostic, DiagnosticSeverity, DiagnosticTag, ProposedFeatures, Range, TextEdit, Files, DocumentFilter, DocumentFormattingRegistrationOptions,
-	Disposable, DocumentFormattingRequest, TextDocuments, uinteger,
-	MarkupContent
+	Disposable, DocumentFormattingRequest, uinteger,
+	MarkupContent, CancellationToken
 } from 'vscode-languageserver/node';
 import { URI } from 'vscode-uri';
 
-import { ProbeFailedParams, ProbeFailedRequest, NoESLintLibraryRequest, Status, NoConfigRequest, StatusNotification } from './shared/customMessages';
+import { EffectiveConfigResult, ExplainFileResult, MissingModuleRequest, ProbeLanguageResult, ProbeFailedParams, ProbeFailedRequest, ProbeSucceededNotification, ProbeSucceededParams, NoESLintLibraryRequest, Status, StatusReason, NoConfigRequest, StatusNotification } from './shared/customMessages';
 import { CodeActionsOnSaveMode, ConfigurationSettings, DirectoryItem, ESLintOptions, ESLintSeverity, ModeEnum, ModeItem, PackageManagers, RuleCustomization, RuleSeverity, Validate } from './shared/settings';
 
 import * as Is from './is';
 import { LRUCache } from './linkedMap';
-import { isUNC, normalizeDriveLetter, normalizePath } from './paths';
+import { isInDirectory, isUNC, normalizeDriveLetter, normalizePath } from './paths';
 import LanguageDefaults from './languageDefaults';
+import { Suppressions } from './suppressions';
+import { WorkspacePackages } from './workspacePackages';
 
 
 /**
@@ -47,16 +49,199 @@ export namespace TextDocumentSettings {
  * A special error thrown by the ESLint library
  */
 export interface ESLintError extends Error {
+	code?: string;
 	messageTemplate?: string;
 	messageData?: {
 		pluginName?: string;
+		configName?: string;
+		importerName?: string;
+		ruleId?: string;
 	};
 }
 
 export namespace ESLintError {
 	export function isNoConfigFound(error: any): boolean {
 		const candidate = error as ESLintError;
-		return candidate.messageTemplate === 'no-config-found' || candidate.message === 'No ESLint configuration found.';
+		return candidate.messageTemplate === 'no-config-found' || candidate.messageTemplate === 'config-file-missing'
+			|| candidate.message === 'No ESLint configuration found.' || candidate.message === 'Could not find config file.';
+	}
+
+	/**
+	 * Describes what went wrong while validating a document.
+	 */
+	export type Classification = {
+		status: Status;
+		reason: StatusReason;
+		/**
+		 * The name of the missing package for `StatusReason.missingModule` and the
+		 * configuration file for `StatusReason.configError` if known.
+		 */
+		detail?: string;
+		location?: ConfigLocation;
+	};
+
+	const configErrorTemplates: Set<string> = new Set([
+		'config-plugin-missing', 'eslintrc-incompat', 'eslintrc-plugins', 'failed-to-read-json',
+		'invalid-rule-options', 'invalid-rule-severity', 'plugin-conflict', 'plugin-invalid'
+	]);
+
+	/**
+	 * Classifies an error thrown while validating a document. The error's structured data
+	 * (`messageTemplate`, `messageData` and `code`) is used first and the message text only
+	 * if it is missing, for example for older ESLint versions.
+	 *
+	 * @param getFlatConfigFile returns the flat configuration file for configuration
+	 * errors that don't name a file.
+	 */
+	export function classify(error: any, getFlatConfigFile?: () => string | undefined): Classification {
+		if (error === null || typeof error !== 'object') {
+			return { status: Status.error, reason: StatusReason.unexpectedError };
+		}
+		if (isNoConfigFound(error)) {
+			return { status: Status.warn, reason: StatusReason.noConfig };
+		}
+		const location = getConfigLocation(error, getFlatConfigFile);
+		const module = getMissingModule(error);
+		if (module !== undefined) {
+			return { status: Status.warn, reason: StatusReason.missingModule, detail: module, location };
+		}
+		if (location !== undefined || isConfigError(error)) {
+			return { status: Status.warn, reason: StatusReason.configError, detail: location?.filePath, location };
+		}
+		return { status: Status.error, reason: StatusReason.unexpectedError };
+	}
+
+	/**
+	 * Returns the package a configuration refers to that isn't installed. Missing relative
+	 * or absolute modules are configuration errors since there is nothing to install.
+	 */
+	export function getMissingModule(error: any): string | undefined {
+		const candidate = error as ESLintError;
+		let module: string | undefined;
+		if (candidate.messageTemplate === 'plugin-missing') {
+			module = candidate.messageData?.pluginName;
+		} else if (candidate.messageTemplate === 'extend-config-missing') {
+			module = candidate.messageData?.configName;
+		} else if (Is.string(candidate.message)) {
+			const matches = candidate.code === 'MODULE_NOT_FOUND' || candidate.code === 'ERR_MODULE_NOT_FOUND'
+				? /Cannot find (?:module|package) '([^']+)'/.exec(candidate.message)
+				: /Failed to load plugin (?:.*): Cannot find module '([^']+)'/.exec(candidate.message) ?? /Cannot find module '([^']+)'\nReferenced from:/.exec(candidate.message);
+			module = matches !== null ? matches[1] : undefined;
+		}
+		if (module === undefined || module.startsWith('.') || path.isAbsolute(module) || module.startsWith('file:')) {
+			return undefined;
+		}
+		// Strip deep imports like `eslint-plugin-x/configs` down to the package.
+		const segments = module.split('/');
+		return segments.slice(0, module.startsWith('@') ? 2 : 1).join('/');
+	}
+
+	export function isConfigError(error: any): boolean {
+		const candidate = error as ESLintError;
+		if (Is.string(candidate.messageTemplate) && configErrorTemplates.has(candidate.messageTemplate)) {
+			return true;
+		}
+		if (isFlatConfigError(error)) {
+			return true;
+		}
+		return Is.string(candidate.message) && (/Cannot read config file:\s+/.test(candidate.message) || /:\n\s*Configuration for rule "(?:.*)" is /.test(candidate.message));
+	}
+
+	/**
+	 * Where an error happened in a configuration file. Line and column are one based.
+	 */
+	export type ConfigLocation = {
+		filePath: string;
+		line?: number;
+		column?: number;
+		ruleId?: string;
+	};
+
+	const configFileName = /^(?:eslint\.config\.[cm]?[jt]s|\.eslintrc(?:\.(?:js|cjs|json|yaml|yml))?)$/;
+
+	export function isConfigFile(filePath: string): boolean {
+		return configFileName.test(path.basename(filePath));
+	}
+
+	/**
+	 * Returns the configuration file an error names in its message or stack. The
+	 * position comes from the stack if the error happened while running the file.
+	 *
+	 * @param getFlatConfigFile returns the flat configuration file for errors that
+	 * don't name a file, like invalid rule options.
+	 */
+	export function getConfigLocation(error: any, getFlatConfigFile?: () => string | undefined): ConfigLocation | undefined {
+		if (error === null || typeof error !== 'object') {
+			return undefined;
+		}
+		const message: string = Is.string(error.message) ? error.message : '';
+		const stack: string = Is.string(error.stack) ? error.stack : '';
+		const ruleId = getRuleId(error);
+		const withRuleId = (location: ConfigLocation): ConfigLocation => ruleId !== undefined ? Object.assign(location, { ruleId }) : location;
+
+		// Syntax errors in CommonJS files start with the file name, the line and a caret below the source.
+		let matches = /^(.+):(\d+)\r?\n.*\r?\n(\s*)\^/.exec(stack);
+		if (matches !== null && isConfigFile(matches[1])) {
+			return { filePath: toFilePath(matches[1]), line: Number(matches[2]), column: matches[3].length + 1 };
+		}
+
+		// The error got thrown while running the configuration file.
+		const frame = /^\s*at (?:.*?\()?((?:file:\/\/)?[^()\s]+?)(?:\?[^:()\s]*)?:(\d+):(\d+)\)?$/gm;
+		while ((matches = frame.exec(stack)) !== null) {
+			if (isConfigFile(matches[1])) {
+				return withRuleId({ filePath: toFilePath(matches[1]), line: Number(matches[2]), column: Number(matches[3]) });
+			}
+		}
+
+		for (const regExp of [
+			/Cannot read config file:\s+(.*)\nError:\s+/,
+			/(.*):\n\s*Configuration for rule "(?:.*)" is /,
+			/Cannot find module '(?:[^']*)'\nReferenced from:\s+(.*)/,
+			/Cannot find (?:package|module) '(?:[^']*)' imported from (.*)/,
+			/Require stack:\n- (.*)/
+		]) {
+			matches = regExp.exec(message);
+			if (matches !== null && isConfigFile(matches[1])) {
+				return withRuleId({ filePath: toFilePath(matches[1].trim()) });
+			}
+		}
+
+		if (getFlatConfigFile !== undefined && isFlatConfigError(error)) {
+			const filePath = getFlatConfigFile();
+			return filePath !== undefined ? withRuleId({ filePath }) : undefined;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Whether the error comes from loading or validating a flat configuration. These errors
+	 * often don't name the configuration file.
+	 */
+	export function isFlatConfigError(error: any): boolean {
+		if (error === null || typeof error !== 'object' || !Is.string(error.message)) {
+			return false;
+		}
+		if (error.name === 'ConfigError' || /^(?:Config (?:\(unnamed\)|"[^"]*"): |Key "[^"]+": )/.test(error.message)) {
+			return true;
+		}
+		if (!Is.string(error.stack)) {
+			return false;
+		}
+		// Node doesn't add the location of syntax errors in ES modules to the error.
+		return /\b(?:loadConfigFile|loadFlatConfigFile|dynamicImportConfig)\b/.test(error.stack)
+			|| (error.name === 'SyntaxError' && /\(node:internal\/modules\/esm\//.test(error.stack));
+	}
+
+	function getRuleId(error: any): string | undefined {
+		if (Is.string(error.messageData?.ruleId)) {
+			return error.messageData.ruleId;
+		}
+		const matches = Is.string(error.message) ? /Key "rules": Key "([^"]+)"/.exec(error.message) : null;
+		return matches !== null ? matches[1] : undefined;
+	}
+
+	function toFilePath(value: string): string {
+		return value.startsWith('file://') ? URI.parse(value).fsPath : value;
 	}
 }
 
@@ -113,6 +298,12 @@ export type RuleConf = SeverityConf | [SeverityConf, ...any[]];
 
 export type ConfigData = {
 	rules?: Record<string, RuleConf>;
+	// eslintrc configuration
+	reportUnusedDisableDirectives?: boolean;
+	// flat configuration
+	linterOptions?: {
+		reportUnusedDisableDirectives?: boolean | SeverityConf;
+	};
 };
 
 export type ESLintClassOptions = {
@@ -123,13 +314,39 @@ export type ESLintClassOptions = {
 	overrideConfigFile?: string | null;
 	applySuppressions?: boolean;
 	suppressionsLocation?: string;
+	flags?: string[];
+};
+
+/**
+ * Selects the fixes `ESLint.fixFiles` applies.
+ */
+export type FixFilesOptions = {
+	/**
+	 * Only fix the problems of these rules.
+	 */
+	ruleIds?: ReadonlySet<string>;
+
+	/**
+	 * Only remove unused disable directives. They are reported regardless of the
+	 * configuration.
+	 */
+	unusedDirectives?: boolean;
 };
 
 export type RuleMetaData = {
 	docs?: {
 		url?: string;
+		description?: string;
 	};
 	type?: string;
+	fixable?: 'code' | 'whitespace';
+	hasSuggestions?: boolean;
+	// Since ESLint 9.21 deprecated rules can provide structured information.
+	deprecated?: boolean | {
+		message?: string;
+		replacedBy?: { rule?: { name?: string } }[];
+	};
+	replacedBy?: string[];
 };
 
 export namespace RuleMetaData {
@@ -144,18 +361,35 @@ export namespace RuleMetaData {
 		type: 'directive'
 	};
 
-	const handled: Set<string> = new Set();
-	const ruleId2Meta: Map<string, RuleMetaData> = new Map([[unusedDisableDirectiveId, unusedDisableDirectiveMeta]]);
+	type Scope = {
+		handled: Set<string>;
+		ruleId2Meta: Map<string, RuleMetaData>;
+	};
+
+	// The meta data is kept per working directory. Different working directories can
+	// load different versions of a plugin and so different meta data for a rule.
+	const cwd2Scope: Map<string, Scope> = new Map();
+
+	function getScope(settings: TextDocumentSettings): Scope {
+		const cwd = ESLint.getCwd(settings);
+		let result = cwd2Scope.get(cwd);
+		if (result === undefined) {
+			result = { handled: new Set(), ruleId2Meta: new Map() };
+			cwd2Scope.set(cwd, result);
+		}
+		return result;
+	}
 
-	export function capture(eslint: ESLintClass, reports: ESLintDocumentReport[]): void {
+	export function capture(eslint: ESLintClass, reports: ESLintDocumentReport[], settings: TextDocumentSettings): void {
+		const scope = getScope(settings);
 		let rulesMetaData: Record<string, RuleMetaData> | undefined;
 		if (eslint.isCLIEngine) {
-			const toHandle = reports.filter(report => !handled.has(report.filePath));
+			const toHandle = reports.filter(report => !scope.handled.has(report.filePath));
 			if (toHandle.length === 0) {
 				return;
 			}
 			rulesMetaData = typeof eslint.getRulesMetaForResults === 'function' ? eslint.getRulesMetaForResults(toHandle) : undefined;
-			toHandle.forEach(report => handled.add(report.filePath));
+			toHandle.forEach(report => scope.handled.add(report.filePath));
 		} else {
 			rulesMetaData = typeof eslint.getRulesMetaForResults === 'function' ? eslint.getRulesMetaForResults(reports) : undefined;
 		}
@@ -163,31 +397,46 @@ export namespace RuleMetaData {
 			return undefined;
 		}
 		Object.entries(rulesMetaData).forEach(([key, meta]) => {
-			if (ruleId2Meta.has(key)) {
+			if (scope.ruleId2Meta.has(key)) {
 				return;
 			}
-			if (meta && meta.docs && Is.string(meta.docs.url)) {
-				ruleId2Meta.set(key, meta);
+			if (meta) {
+				scope.ruleId2Meta.set(key, meta);
 			}
 		});
 	}
 
 	export function clear(): void {
-		handled.clear();
-		ruleId2Meta.clear();
-		ruleId2Meta.set(unusedDisableDirectiveId, unusedDisableDirectiveMeta);
+		cwd2Scope.clear();
+	}
+
+	/**
+	 * Drops the meta data captured for working directories containing one of the
+	 * given directories or located in one of them. A configuration change there can
+	 * update the plugins providing the rules.
+	 */
+	export function clearIn(directories: string[]): void {
+		for (const cwd of Array.from(cwd2Scope.keys())) {
+			if (directories.some(directory => isInDirectory(cwd, directory) || isInDirectory(directory, cwd))) {
+				cwd2Scope.delete(cwd);
+			}
+		}
 	}
 
-	export function getUrl(ruleId: string): string | undefined {
-		return ruleId2Meta.get(ruleId)?.docs?.url;
+	export function get(ruleId: string, settings: TextDocumentSettings): RuleMetaData | undefined {
+		if (ruleId === unusedDisableDirectiveId) {
+			return unusedDisableDirectiveMeta;
+		}
+		return cwd2Scope.get(ESLint.getCwd(settings))?.ruleId2Meta.get(ruleId);
 	}
 
-	export function getType(ruleId: string): string | undefined {
-		return ruleId2Meta.get(ruleId)?.type;
+	export function getUrl(ruleId: string, settings: TextDocumentSettings): string | undefined {
+		const url = get(ruleId, settings)?.docs?.url;
+		return Is.string(url) ? url : undefined;
 	}
 
-	export function hasRuleId(ruleId: string): boolean {
-		return ruleId2Meta.has(ruleId);
+	export function getType(ruleId: string, settings: TextDocumentSettings): string | undefined {
+		return get(ruleId, settings)?.type;
 	}
 
 	export function isUnusedDisableDirectiveProblem(problem: ESLintProblem): boolean {
@@ -228,6 +477,19 @@ export type Problem = {
 };
 
 export namespace Problem {
+	export function create(diagnostic: Diagnostic & { data: DiagnosticData }): Problem {
+		const data = diagnostic.data;
+		return {
+			label: `Fix this ${data.ruleId} problem`,
+			documentVersion: data.version,
+			ruleId: data.ruleId,
+			line: data.line,
+			diagnostic: diagnostic,
+			edit: data.fix,
+			suggestions: data.suggestions
+		};
+	}
+
 	export function isFixable(problem: Problem): problem is FixableProblem {
 		return problem.edit !== undefined;
 	}
@@ -237,12 +499,35 @@ export namespace Problem {
 	}
 }
 
+/**
+ * The data attached to a diagnostic produced by ESLint. It carries everything needed
+ * to compute the code actions for the diagnostic.
+ */
+export type DiagnosticData = {
+	ruleId: string;
+	version: number;
+	line: number;
+	fix?: ESLintAutoFixEdit;
+	suggestions?: ESLintSuggestionResult[];
+};
+
+export namespace DiagnosticData {
+	export function is(value: any): value is DiagnosticData {
+		const candidate = value as DiagnosticData;
+		return candidate !== undefined && candidate !== null && Is.string(candidate.ruleId) && typeof candidate.version === 'number' && typeof candidate.line === 'number';
+	}
+
+	export function has(diagnostic: Diagnostic): diagnostic is Diagnostic & { data: DiagnosticData } {
+		return is(diagnostic.data);
+	}
+}
+
 export type FixableProblem = Problem & {
 	edit: ESLintAutoFixEdit;
 };
 
 export namespace FixableProblem {
-	export function createTextEdit(document: TextDocument, editInfo: FixableProblem): TextEdit {
+	export function createTextEdit(document: TextDocument, editInfo: Pick<FixableProblem, 'edit'>): TextEdit {
 		return TextEdit.replace(Range.create(document.positionAt(editInfo.edit.range[0]), document.positionAt(editInfo.edit.range[1])), editInfo.edit.text || '');
 	}
 }
@@ -260,6 +545,8 @@ export namespace SuggestionsProblem {
 interface ESLintClass extends Object {
 	// https://eslint.org/docs/developer-guide/nodejs-api#-eslintlinttextcode-options
 	lintText(content: string, options: {filePath?: string; warnIgnored?: boolean}): Promise<ESLintDocumentReport[]>;
+	// https://eslint.org/docs/latest/integrate/nodejs-api#-eslintlintfilespatterns
+	lintFiles(patterns: string | string[]): Promise<ESLintDocumentReport[]>;
 	// https://eslint.org/docs/developer-guide/nodejs-api#-eslintispathignoredfilepath
 	isPathIgnored(path: string): Promise<boolean>;
 	// https://eslint.org/docs/developer-guide/nodejs-api#-eslintgetrulesmetaforresultsresults
@@ -341,6 +628,7 @@ namespace RuleData {
 
 interface CLIEngine {
 	executeOnText(content: string, file?: string, warn?: boolean): ESLintReport;
+	executeOnFiles(patterns: string[]): ESLintReport;
 	isPathIgnored(path: string): boolean;
 	// This is only available from v4.15.0 forward
 	getRules?(): Map<string, RuleData>;
@@ -369,6 +657,9 @@ class ESLintClassEmulator implements ESLintClass {
 	async lintText(content: string, options: { filePath?: string | undefined; warnIgnored?: boolean | undefined }): Promise<ESLintDocumentReport[]> {
 		return this.cli.executeOnText(content, options.filePath, options.warnIgnored).results;
 	}
+	async lintFiles(patterns: string | string[]): Promise<ESLintDocumentReport[]> {
+		return this.cli.executeOnFiles(Array.isArray(patterns) ? patterns : [patterns]).results;
+	}
 	async isPathIgnored(path: string): Promise<boolean> {
 		return this.cli.isPathIgnored(path);
 	}
@@ -394,7 +685,7 @@ class ESLintClassEmulator implements ESLintClass {
  * Class for dealing with Fixes.
  */
 export class Fixes {
-	constructor(private edits: Map<string, Problem>) {
+	constructor(private edits: Problem[]) {
 	}
 
 	public static overlaps(a: FixableProblem | undefined, b: FixableProblem): boolean {
@@ -406,23 +697,23 @@ export class Fixes {
 	}
 
 	public isEmpty(): boolean {
-		return this.edits.size === 0;
+		return this.edits.length === 0;
 	}
 
 	public getDocumentVersion(): number {
 		if (this.isEmpty()) {
 			throw new Error('No edits recorded.');
 		}
-		return this.edits.values().next().value!.documentVersion;
+		return this.edits[0].documentVersion;
 	}
 
 	public getScoped(diagnostics: Diagnostic[]): Problem[] {
 		const result: Problem[] = [];
+		const documentVersion = this.getDocumentVersion();
 		for (const diagnostic of diagnostics) {
-			const key = Diagnostics.computeKey(diagnostic);
-			const editInfo = this.edits.get(key);
-			if (editInfo) {
-				result.push(editInfo);
+			// Diagnostics from an older validation run don't match the document anymore.
+			if (DiagnosticData.has(diagnostic) && diagnostic.data.version === documentVersion) {
+				result.push(Problem.create(diagnostic));
 			}
 		}
 		return result;
@@ -430,7 +721,7 @@ export class Fixes {
 
 	public getAllSorted(): FixableProblem[] {
 		const result: FixableProblem[] = [];
-		for (const value of this.edits.values()) {
+		for (const value of this.edits) {
 			if (Problem.isFixable(value)) {
 				result.push(value);
 			}
@@ -622,17 +913,6 @@ export namespace Diagnostics {
 		return /\b(?:defined|assigned)\b.+\bnever used\b/i.test(problem.message);
 	}
 
-	export function computeKey(diagnostic: Diagnostic): string {
-		const range = diagnostic.range;
-		let message: string | undefined;
-		if (diagnostic.message) {
-			const hash  = crypto.createHash('sha256');
-			hash.update(getMessageString(diagnostic));
-			message = hash.digest('base64');
-		}
-		return `[${range.start.line},${range.start.character},${range.end.line},${range.end.character}]-${diagnostic.code}-${message ?? ''}`;
-	}
-
 	export function getMessageString(diagnostic: Diagnostic): string {
 		if (Is.string(diagnostic.message)) {
 			return diagnostic.message;
@@ -675,7 +955,7 @@ export namespace Diagnostics {
 			}
 		};
 		if (problem.ruleId) {
-			const url = RuleMetaData.getUrl(problem.ruleId);
+			const url = RuleMetaData.getUrl(problem.ruleId, settings);
 			result.code = problem.ruleId;
 			if (url !== undefined) {
 				result.codeDescription = {
@@ -748,13 +1028,13 @@ export namespace Diagnostics {
  * Capture information necessary to compute code actions.
  */
 export namespace CodeActions {
-	const codeActions: Map<string, Map<string, Problem>> = new Map<string, Map<string, Problem>>();
+	const codeActions: Map<string, Problem[]> = new Map<string, Problem[]>();
 
-	export function get(uri: string): Map<string, Problem> | undefined {
+	export function get(uri: string): Problem[] | undefined {
 		return codeActions.get(uri);
 	}
 
-	export function set(uri: string, value: Map<string, Problem>): void {
+	export function set(uri: string, value: Problem[]): void {
 		codeActions.set(uri, value);
 	}
 
@@ -762,25 +1042,31 @@ export namespace CodeActions {
 		return codeActions.delete(uri);
 	}
 
-	export function record(document: TextDocument, diagnostic: Diagnostic, problem: ESLintProblem): void {
-		if (!problem.ruleId) {
+	/**
+	 * Records the problem for the given document version and attaches the data needed
+	 * to compute code actions to the diagnostic. Nothing is recorded if the document
+	 * has changed since it got linted. Code actions computed from such a problem would
+	 * modify the wrong text.
+	 */
+	export function record(document: TextDocument, documentVersion: number, diagnostic: Diagnostic, problem: ESLintProblem): void {
+		if (!problem.ruleId || document.version !== documentVersion) {
 			return;
 		}
 		const uri = document.uri;
-		let edits: Map<string, Problem> | undefined = CodeActions.get(uri);
-		if (edits === undefined) {
-			edits = new Map<string, Problem>();
-			CodeActions.set(uri, edits);
-		}
-		edits.set(Diagnostics.computeKey(diagnostic), {
-			label: `Fix this ${problem.ruleId} problem`,
-			documentVersion: document.version,
+		let problems: Problem[] | undefined = CodeActions.get(uri);
+		if (problems === undefined) {
+			problems = [];
+			CodeActions.set(uri, problems);
+		}
+		const data: DiagnosticData = {
 			ruleId: problem.ruleId,
+			version: documentVersion,
 			line: problem.line,
-			diagnostic: diagnostic,
-			edit: problem.fix,
+			fix: problem.fix,
 			suggestions: problem.suggestions
-		});
+		};
+		diagnostic.data = data;
+		problems.push(Problem.create(diagnostic as Diagnostic & { data: DiagnosticData }));
 	}
 }
 
@@ -790,7 +1076,6 @@ export namespace CodeActions {
 export namespace ESLint {
 
 	let connection: ProposedFeatures.Connection;
-	let documents: TextDocuments<TextDocument>;
 	let inferFilePath: (documentOrUri: string | TextDocument | URI | undefined, useRealpaths: boolean) => string | undefined;
 	let loadNodeModule: <T>(moduleName: string) => T | undefined;
 
@@ -858,6 +1143,11 @@ export namespace ESLint {
 	];
 
 	const path2Library: Map<string, ESLintModule> = new Map<string, ESLintModule>();
+	const classCache: LRUCache<string, Promise<ESLintClass>> = new LRUCache<string, Promise<ESLintClass>>(32);
+	const classCacheStats: { hits: number; misses: number } = { hits: 0, misses: 0 };
+	// The working directories of the cached instances. Entries of instances evicted
+	// from the cache are dropped in `clearClasses`.
+	const class2Cwd: Map<string, string> = new Map();
 	const document2Settings: Map<string, Promise<TextDocumentSettings>> = new Map<string, Promise<TextDocumentSettings>>();
 	const formatterRegistrations: Map<string, Promise<Disposable>> = new Map();
 
@@ -886,6 +1176,13 @@ export namespace ESLint {
 				enable: false,
 				severity: 'info'
 			},
+			workspaceDiagnostics: {
+				enable: false,
+				languageIds: [],
+				probeLanguageIds: []
+			},
+			languages: {},
+			configLookup: 'auto',
 			onIgnoredFiles: ESLintSeverity.off,
 			options: {},
 			rulesCustomizations: [],
@@ -899,9 +1196,8 @@ export namespace ESLint {
 		};
 	}
 
-	export function initialize($connection: ProposedFeatures.Connection, $documents: TextDocuments<TextDocument>, $inferFilePath: (documentOrUri: string | TextDocument | URI | undefined, useRealpaths: boolean) => string | undefined, $loadNodeModule: <T>(moduleName: string) => T | undefined) {
+	export function initialize($connection: ProposedFeatures.Connection, $inferFilePath: (documentOrUri: string | TextDocument | URI | undefined, useRealpaths: boolean) => string | undefined, $loadNodeModule: <T>(moduleName: string) => T | undefined) {
 		connection = $connection;
-		documents = $documents;
 		inferFilePath = $inferFilePath;
 		loadNodeModule = $loadNodeModule;
 	}
@@ -914,6 +1210,34 @@ export namespace ESLint {
 		document2Settings.clear();
 	}
 
+	/**
+	 * Removes the cached settings of the documents affected by a change of a configuration
+	 * file in one of the given directories. A document is affected if it or its working
+	 * directory is located in one of the directories.
+	 *
+	 * @returns the URIs of the affected documents.
+	 */
+	export async function removeSettingsIn(directories: string[]): Promise<string[]> {
+		const result: string[] = [];
+		for (const [uri, promise] of Array.from(document2Settings)) {
+			let affected: boolean;
+			try {
+				const settings = await promise;
+				const filePath = inferFilePath(uri, settings.useRealpaths);
+				const workingDirectory = settings.workingDirectory?.directory;
+				affected = directories.some(directory => (filePath !== undefined && isInDirectory(filePath, directory)) || (workingDirectory !== undefined && isInDirectory(workingDirectory, directory)));
+			} catch {
+				affected = true;
+			}
+			// The settings might have been replaced while waiting for them.
+			if (affected && document2Settings.get(uri) === promise) {
+				document2Settings.delete(uri);
+				result.push(uri);
+			}
+		}
+		return result;
+	}
+
 	export function unregisterAsFormatter(document: TextDocument): void {
 		const unregister = formatterRegistrations.get(document.uri);
 		if (unregister !== undefined) {
@@ -936,274 +1260,465 @@ export namespace ESLint {
 			return resultPromise;
 		}
 		resultPromise = connection.workspace.getConfiguration({ scopeUri: uri, section: '' }).then((configuration: ConfigurationSettings | null | undefined) => {
-			const resolvedConfiguration = Object.assign(createDefaultConfigurationSettings(), configuration ?? {});
-			const settings: TextDocumentSettings = Object.assign(
-				{},
-				resolvedConfiguration,
-				{ silent: false, library: undefined, resolvedGlobalPackageManagerPath: undefined },
-				{ workingDirectory: undefined}
-			);
-			if (settings.validate === Validate.off) {
-				return settings;
-			}
-			settings.resolvedGlobalPackageManagerPath = GlobalPaths.get(settings.packageManager);
-			const filePath = inferFilePath(document, settings.useRealpaths);
-			const workspaceFolderPath = settings.workspaceFolder !== undefined ? inferFilePath(settings.workspaceFolder.uri, settings.useRealpaths) : undefined;
-			let assumeFlatConfig:boolean = false;
-			const hasUserDefinedWorkingDirectories: boolean = resolvedConfiguration.workingDirectory !== undefined;
-			const workingDirectoryConfig = resolvedConfiguration.workingDirectory ?? { mode: ModeEnum.location };
-			if (ModeItem.is(workingDirectoryConfig)) {
-				let candidate: string | undefined;
-				if (workingDirectoryConfig.mode === ModeEnum.location) {
-					if (workspaceFolderPath !== undefined) {
-						const [configLocation, isFlatConfig] = findWorkingDirectory(workspaceFolderPath, filePath);
-						if (isFlatConfig && settings.useFlatConfig !== false) {
-							candidate = configLocation;
-							assumeFlatConfig = true;
-						} else {
-							candidate = workspaceFolderPath;
-						}
-					} else if (filePath !== undefined && !isUNC(filePath)) {
-						candidate = path.dirname(filePath);
-					}
-				} else if (workingDirectoryConfig.mode === ModeEnum.auto) {
-					if (workspaceFolderPath !== undefined) {
-						candidate = findWorkingDirectory(workspaceFolderPath, filePath)[0];
-					} else if (filePath !== undefined && !isUNC(filePath)) {
-						candidate = path.dirname(filePath);
+			return computeSettings(document, configuration, undefined);
+		});
+		document2Settings.set(uri, resultPromise);
+		return resultPromise;
+	}
+
+	/**
+	 * Explains whether and how ESLint validates a document starting with the given
+	 * outcome of the client's checks.
+	 */
+	export async function explainFile(document: TextDocument, validate: Validate): Promise<ExplainFileResult> {
+		const [settings, steps] = await explainSettings(document, validate);
+		const filePath = getFilePath(document, settings);
+		const result: ExplainFileResult = {
+			steps,
+			validate: settings.validate,
+			filePath: filePath ?? null,
+			libraryPath: settings.library !== undefined ? getLibraryPath(settings.library) ?? null : null,
+			workingDirectory: settings.library !== undefined ? getCwd(settings) : null,
+			configType: null,
+			isIgnored: null
+		};
+		if (TextDocumentSettings.hasLibrary(settings) && filePath !== undefined) {
+			try {
+				[result.isIgnored, result.configType] = await withClass(async (eslintClass) => {
+					return [await eslintClass.isPathIgnored(filePath), ESLintClass.getConfigType(eslintClass)] as const;
+				}, settings, getValidationOptions(settings));
+			} catch (error: any) {
+				steps.push(`Checking whether ESLint ignores the file failed: ${error?.message ?? error}`);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Probes whether the configuration governing a document lints it independent of
+	 * the languages listed in `eslint.validate` and `eslint.probe`. Probing is silent:
+	 * the client isn't told about the outcome or about errors. Only flat configurations
+	 * lint languages without further settings, so ESLint isn't loaded for documents
+	 * without a flat config file.
+	 */
+	export async function probeLanguage(document: TextDocument): Promise<ProbeLanguageResult> {
+		const configuration: ConfigurationSettings | null | undefined = await connection.workspace.getConfiguration({ scopeUri: document.uri, section: '' });
+		if (configuration === null || configuration === undefined || configuration.useFlatConfig === false) {
+			return { validated: false };
+		}
+		const filePath = inferFilePath(document, configuration.useRealpaths);
+		if (filePath === undefined || isUNC(filePath) || findFlatConfigFile(filePath) === undefined) {
+			return { validated: false };
+		}
+		try {
+			// Recording the steps keeps computing the settings free of notifications.
+			const steps: string[] = [];
+			const settings = await computeSettings(document, Object.assign({}, configuration, { validate: Validate.probe }), steps);
+			return { validated: settings.validate === Validate.on };
+		} catch {
+			return { validated: false };
+		}
+	}
+
+	/**
+	 * Resolves the settings of a document like `resolveSettings` and records how they got
+	 * resolved. The result isn't cached and the client isn't told about failed probes or
+	 * missing libraries. `validate` replaces the outcome of the client's checks.
+	 */
+	async function explainSettings(document: TextDocument, validate: Validate): Promise<[TextDocumentSettings, string[]]> {
+		const configuration: ConfigurationSettings | null | undefined = await connection.workspace.getConfiguration({ scopeUri: document.uri, section: '' });
+		const explanation: string[] = [];
+		const settings = await computeSettings(document, Object.assign({}, configuration ?? {}, { validate }), explanation);
+		return [settings, explanation];
+	}
+
+	/**
+	 * Checks whether an eslintrc configuration lints files of the given language. An
+	 * eslintrc configuration applies to every file, so its parser and plugins decide.
+	 */
+	function probeEslintrcConfig(languageId: string, eslintConfig: ESLintConfig): { validated: boolean; reason: string } {
+		if (defaultLanguageIds.has(languageId)) {
+			return { validated: true, reason: `files of language \`${languageId}\` are validated unless ESLint ignores them.` };
+		}
+		const parserRegExps = languageId2ParserRegExp.get(languageId);
+		const pluginName = languageId2PluginName.get(languageId);
+		const parserOptions = languageId2ParserOptions.get(languageId);
+		if (parserRegExps === undefined && pluginName === undefined && parserOptions === undefined) {
+			return { validated: false, reason: `there is no rule to probe files of language \`${languageId}\` using an eslintrc configuration.` };
+		}
+		const parser: string | undefined =  eslintConfig.parser !== null
+			? normalizePath(eslintConfig.parser)
+			: undefined;
+		if (parser !== undefined) {
+			if (parserRegExps !== undefined) {
+				for (const regExp of parserRegExps) {
+					if (regExp.test(parser)) {
+						return { validated: true, reason: `the parser \`${parser}\` matches \`${regExp.source}\`.` };
 					}
 				}
-				if (candidate !== undefined && fs.existsSync(candidate)) {
-					settings.workingDirectory = { directory: candidate };
-				}
-			} else {
-				settings.workingDirectory = workingDirectoryConfig;
 			}
-			let nodePath: string | undefined;
-			if (settings.nodePath !== null) {
-				nodePath = settings.nodePath;
-				if (!path.isAbsolute(nodePath) && workspaceFolderPath !== undefined) {
-					nodePath = path.join(workspaceFolderPath, nodePath);
+			if (parserOptions !== undefined && typeof eslintConfig.parserOptions?.parser === 'string') {
+				const eslintConfigParserOptionsParser = normalizePath(eslintConfig.parserOptions.parser);
+				for (const regExp of parserOptions.regExps) {
+					if (regExp.test(parser) && (
+						parserOptions.parsers.has(eslintConfig.parserOptions.parser) ||
+						parserOptions.parserRegExps !== undefined && parserOptions.parserRegExps.some(parserRegExp => parserRegExp.test(eslintConfigParserOptionsParser))
+					)) {
+						return { validated: true, reason: `the parser \`${parser}\` matches \`${regExp.source}\` and uses the parser \`${eslintConfig.parserOptions.parser}\`.` };
+					}
 				}
 			}
-			let moduleResolveWorkingDirectory: string | undefined;
-			if (!hasUserDefinedWorkingDirectories && filePath !== undefined) {
-				moduleResolveWorkingDirectory = path.dirname(filePath);
+		}
+		if (Array.isArray(eslintConfig.plugins) && pluginName !== undefined && eslintConfig.plugins.includes(pluginName)) {
+			return { validated: true, reason: `the configuration uses the plugin \`${pluginName}\`.` };
+		}
+		return { validated: false, reason: `the configuration neither uses a parser (found \`${parser ?? 'none'}\`) nor a plugin${pluginName !== undefined ? ` (\`${pluginName}\`)` : ''} for \`${languageId}\`.` };
+	}
+
+	type ResolvedWorkingDirectory = {
+		workingDirectory: DirectoryItem | undefined;
+		workspacePackage: WorkspacePackages.Package | undefined;
+		/**
+		 * Whether the directory of a flat config file got picked.
+		 */
+		assumeFlatConfig: boolean;
+		/**
+		 * Whether the configuration lookup of the ESLint library can replace the working directory.
+		 */
+		followsConfigLookup: boolean;
+	};
+
+	/**
+	 * Computes the working directory of a file as configured by `eslint.workingDirectories`.
+	 * Directories computed from a mode can still be replaced depending on the configuration
+	 * lookup of the ESLint library, see `findLookupConfigFile`.
+	 */
+	function resolveWorkingDirectory(configuration: ConfigurationSettings, workspaceFolderPath: string | undefined, filePath: string | undefined, explanation: string[] | undefined): ResolvedWorkingDirectory {
+		let assumeFlatConfig: boolean = false;
+		let workspacePackage: WorkspacePackages.Package | undefined;
+		let workingDirectory: DirectoryItem | undefined;
+		const workingDirectoryConfig = configuration.workingDirectory ?? { mode: ModeEnum.location };
+		if (ModeItem.is(workingDirectoryConfig)) {
+			let candidate: string | undefined;
+			if (workingDirectoryConfig.mode === ModeEnum.location) {
+				if (workspaceFolderPath !== undefined) {
+					const [configLocation, isFlatConfig] = findWorkingDirectory(workspaceFolderPath, filePath);
+					explanation?.push(`\`findWorkingDirectory\` returned \`${configLocation}\` (${isFlatConfig ? 'a flat config file' : 'no flat config file'} found).`);
+					if (isFlatConfig && configuration.useFlatConfig !== false) {
+						candidate = configLocation;
+						assumeFlatConfig = true;
+						explanation?.push('Working directory mode `location`: the directory of the closest flat config file is used and a flat config is expected.');
+					} else {
+						candidate = workspaceFolderPath;
+						explanation?.push(`Working directory mode \`location\`: the workspace folder is used${isFlatConfig ? ' since `eslint.useFlatConfig` is `false`' : ''}.`);
+					}
+				} else if (filePath !== undefined && !isUNC(filePath)) {
+					candidate = path.dirname(filePath);
+					explanation?.push('Working directory mode `location`: the file is not part of a workspace folder. Its directory is used.');
+				}
+			} else if (workingDirectoryConfig.mode === ModeEnum.auto) {
+				workspacePackage = workspaceFolderPath !== undefined && filePath !== undefined && !isUNC(filePath)
+					? WorkspacePackages.find(workspaceFolderPath, filePath, workingDirectoryConfig.rootIndicators)
+					: undefined;
+				if (workspacePackage !== undefined) {
+					candidate = workspacePackage.directory;
+					const message = `Working directory mode \`auto\`: the file belongs to the package \`${workspacePackage.directory}\` declared by \`${workspacePackage.manifest}\`. The package is the working directory and ESLint is resolved from it.`;
+					explanation?.push(message);
+					connection.tracer.log(message);
+				} else if (workspaceFolderPath !== undefined) {
+					candidate = findWorkingDirectory(workspaceFolderPath, filePath)[0];
+					explanation?.push(`Working directory mode \`auto\`: \`findWorkingDirectory\` returned \`${candidate}\`.`);
+				} else if (filePath !== undefined && !isUNC(filePath)) {
+					candidate = path.dirname(filePath);
+					explanation?.push('Working directory mode `auto`: the file is not part of a workspace folder. Its directory is used.');
+				}
 			}
-			if (moduleResolveWorkingDirectory === undefined && settings.workingDirectory !== undefined && !settings.workingDirectory['!cwd']) {
-				moduleResolveWorkingDirectory = settings.workingDirectory.directory;
+			if (candidate !== undefined && fs.existsSync(candidate)) {
+				workingDirectory = { directory: candidate };
 			}
+		} else {
+			workingDirectory = workingDirectoryConfig;
+			explanation?.push(`The working directory \`${workingDirectoryConfig.directory}\` is configured in \`eslint.workingDirectories\`.`);
+		}
+		return { workingDirectory, workspacePackage, assumeFlatConfig, followsConfigLookup: ModeItem.is(workingDirectoryConfig) && workspacePackage === undefined };
+	}
 
-			let promise: Promise<string>;
-			// During Flat Config is considered experimental,
-			// we need to import FlatESLint from 'eslint/use-at-your-own-risk'.
-			// See: https://eslint.org/blog/2022/08/new-config-system-part-3/
-			const eslintPath = settings.experimental?.useFlatConfig ? 'eslint/use-at-your-own-risk' : 'eslint';
-			if (nodePath !== undefined) {
-				promise = Files.resolve(eslintPath, nodePath, nodePath, trace).then<string, string>(undefined, () => {
-					return Files.resolve(eslintPath, settings.resolvedGlobalPackageManagerPath, moduleResolveWorkingDirectory, trace);
-				});
-			} else {
-				promise = Files.resolve(eslintPath, settings.resolvedGlobalPackageManagerPath, moduleResolveWorkingDirectory, trace);
-			}
+	/**
+	 * ESLint looking up the configuration from the file's directory applies nested configuration
+	 * files regardless of the working directory. Using the directory of the closest one gives every
+	 * configuration its own ESLint instance. Returns that file if ESLint looks up configurations
+	 * this way.
+	 */
+	function findLookupConfigFile(settings: TextDocumentSettings & { library: ESLintModule }, filePath: string | undefined): string | undefined {
+		if (filePath === undefined || isUNC(filePath) || filePath.indexOf(`${path.sep}node_modules${path.sep}`) !== -1 || !getConfigLookup(settings.library, settings).fromFile) {
+			return undefined;
+		}
+		return findFlatConfigFile(filePath);
+	}
 
-			settings.silent = settings.validate === Validate.probe;
-			return promise.then(async (libraryPath) => {
-				let library = path2Library.get(libraryPath);
-				if (library === undefined) {
-					if (settings.experimental?.useFlatConfig === true) {
-						const lib = loadNodeModule<{ FlatESLint?: ESLintClassConstructor }>(libraryPath);
-						if (lib === undefined) {
-							settings.validate = Validate.off;
-							if (!settings.silent) {
-								connection.console.error(`Failed to load eslint library from ${libraryPath}. If you are using ESLint v8.21 or earlier, try upgrading it. For newer versions, try disabling the 'eslint.experimental.useFlatConfig' setting. See the output panel for more information.`);
-							}
-						} else if (lib.FlatESLint === undefined) {
-							settings.validate = Validate.off;
-							connection.console.error(`The eslint library loaded from ${libraryPath} doesn\'t export a FlatESLint class.`);
-						} else {
-							connection.console.info(`ESLint library loaded from: ${libraryPath}`);
-							// pretend to be a regular eslint endpoint
-							library = {
-								ESLint: lib.FlatESLint,
-								isFlatConfig: true,
-								CLIEngine: undefined,
-							};
-							settings.library = library;
-							path2Library.set(libraryPath, library);
-						}
-					} else {
-						library = loadNodeModule(libraryPath);
-						if (library === undefined) {
-							settings.validate = Validate.off;
-							if (!settings.silent) {
-								connection.console.error(`Failed to load eslint library from ${libraryPath}. See output panel for more information.`);
+	function computeSettings(document: TextDocument, configuration: Partial<ConfigurationSettings> | null | undefined, explanation: string[] | undefined): Promise<TextDocumentSettings> {
+		const uri = document.uri;
+		const resolvedConfiguration = Object.assign(createDefaultConfigurationSettings(), configuration ?? {});
+		const settings: TextDocumentSettings = Object.assign(
+			{},
+			resolvedConfiguration,
+			{ silent: false, library: undefined, resolvedGlobalPackageManagerPath: undefined },
+			{ workingDirectory: undefined}
+		);
+		if (settings.validate === Validate.off) {
+			return Promise.resolve(settings);
+		}
+		settings.resolvedGlobalPackageManagerPath = GlobalPaths.get(settings.packageManager);
+		const filePath = inferFilePath(document, settings.useRealpaths);
+		const workspaceFolderPath = settings.workspaceFolder !== undefined ? inferFilePath(settings.workspaceFolder.uri, settings.useRealpaths) : undefined;
+		const hasUserDefinedWorkingDirectories: boolean = resolvedConfiguration.workingDirectory !== undefined;
+		const resolvedWorkingDirectory = resolveWorkingDirectory(resolvedConfiguration, workspaceFolderPath, filePath, explanation);
+		settings.workingDirectory = resolvedWorkingDirectory.workingDirectory;
+		let assumeFlatConfig: boolean = resolvedWorkingDirectory.assumeFlatConfig;
+		let moduleResolveWorkingDirectory: string | undefined;
+		if (!hasUserDefinedWorkingDirectories && filePath !== undefined) {
+			moduleResolveWorkingDirectory = path.dirname(filePath);
+		}
+		if (moduleResolveWorkingDirectory === undefined && settings.workingDirectory !== undefined && !settings.workingDirectory['!cwd']) {
+			moduleResolveWorkingDirectory = settings.workingDirectory.directory;
+		}
+
+		settings.silent = settings.validate === Validate.probe;
+		return resolveLibraryPath(settings, workspaceFolderPath, moduleResolveWorkingDirectory).then(async (libraryPath) => {
+			loadLibrary(libraryPath, settings);
+			explanation?.push(settings.library !== undefined ? `The ESLint library is loaded from \`${libraryPath}\`.` : `The ESLint library resolved to \`${libraryPath}\` could not be loaded.`);
+			// A detected workspace package takes precedence over the configuration lookup.
+			if (TextDocumentSettings.hasLibrary(settings) && resolvedWorkingDirectory.followsConfigLookup) {
+				const configFile = findLookupConfigFile(settings, filePath);
+				if (configFile !== undefined) {
+					settings.workingDirectory = { directory: path.dirname(configFile) };
+					assumeFlatConfig = true;
+					explanation?.push(`ESLint looks up the configuration from the file's directory. The directory of the closest flat config file \`${configFile}\` is used as the working directory.`);
+				}
+			}
+			if (settings.validate === Validate.probe && TextDocumentSettings.hasLibrary(settings)) {
+				settings.validate = Validate.off;
+				let probedConfigType: 'eslintrc' | 'flat' | undefined;
+				const filePath = ESLint.getFilePath(document, settings);
+				if (filePath !== undefined) {
+					if (defaultLanguageIds.has(document.languageId)) {
+						explanation?.push(`Probing: files of language \`${document.languageId}\` are validated unless ESLint ignores them.`);
+						try {
+							const [isIgnored, configType] = await ESLint.withClass(async (eslintClass) => {
+								return [await eslintClass.isPathIgnored(filePath), ESLintClass.getConfigType(eslintClass)];
+							}, settings);
+							probedConfigType = configType;
+							if (isIgnored === false || (isIgnored === true && settings.onIgnoredFiles !== ESLintSeverity.off)) {
+								settings.validate = Validate.on;
+								if (assumeFlatConfig && configType === 'eslintrc') {
+									connection.console.info(`Expected to use flat configuration from directory ${settings.workingDirectory?.directory} but loaded eslintrc config.`);
+								}
+							} else {
+								explanation?.push('Probing: ESLint ignores the file and `eslint.onIgnoredFiles` is `off`.');
 							}
-						} else if (library.CLIEngine === undefined && library.ESLint === undefined) {
+						} catch (error: any) {
 							settings.validate = Validate.off;
-							connection.console.error(`The eslint library loaded from ${libraryPath} doesn\'t export neither a CLIEngine nor an ESLint class. You need at least eslint@1.0.0`);
-						} else {
-							connection.console.info(`ESLint library loaded from: ${libraryPath}`);
-							settings.library = library;
-							path2Library.set(libraryPath, library);
-						}
-					}
-					if (library !== undefined && ESLintModule.hasESLintClass(library) && typeof library.ESLint.version === 'string') {
-						const esLintVersion = semverParse(library.ESLint.version);
-						if (esLintVersion !== null) {
-							if (semverGte(esLintVersion, '10.0.0') && (typeof settings.experimental?.useFlatConfig !== 'undefined' || typeof settings.useFlatConfig !== 'undefined')) {
-								connection.console.info(`ESLint version ${library.ESLint.version} only supports flat configs. The useFlatConfig setting is ignored.`);
-							} else if (semverGte(esLintVersion, '8.57.0') && settings.experimental?.useFlatConfig === true) {
-								connection.console.info(`ESLint version ${library.ESLint.version} supports flat config without experimental opt-in. The 'eslint.experimental.useFlatConfig' setting can be removed.`);
-							}
-							if (settings.bulkSuppression?.enable && !semverGte(esLintVersion, '10.1.0')) {
-								connection.console.warn(`ESLint version ${library.ESLint.version} does not support bulk suppressions via the Node.js API. Upgrade to ESLint >= 10.1 or disable 'eslint.bulkSuppression.enable'.`);
+							explanation?.push(`Probing: calculating the configuration failed: ${error?.message ?? error}`);
+							if (explanation === undefined) {
+								await connection.sendNotification(StatusNotification.type, { uri, state: Status.error });
+								connection.console.error(`Calculating config file for ${uri}) failed.\n${error instanceof Error ? error.stack : ''}`);
 							}
 						}
-					}
-				} else {
-					settings.library = library;
-				}
-				if (settings.validate === Validate.probe && TextDocumentSettings.hasLibrary(settings)) {
-					settings.validate = Validate.off;
-					const filePath = ESLint.getFilePath(document, settings);
-					if (filePath !== undefined) {
-						const parserRegExps = languageId2ParserRegExp.get(document.languageId);
-						const pluginName = languageId2PluginName.get(document.languageId);
-						const parserOptions = languageId2ParserOptions.get(document.languageId);
-						if (defaultLanguageIds.has(document.languageId)) {
+					} else {
+						// Flat configurations can lint any language using a language plugin or a parser. So
+						// the configuration is asked for every language and the parser and plugin tables are
+						// only consulted for eslintrc configurations.
+						const [eslintConfig, configType] = await ESLint.withClass(async (eslintClass) => {
 							try {
-								const [isIgnored, configType] = await ESLint.withClass(async (eslintClass) => {
-									return [await eslintClass.isPathIgnored(filePath), ESLintClass.getConfigType(eslintClass)];
-								}, settings);
-								if (isIgnored === false || (isIgnored === true && settings.onIgnoredFiles !== ESLintSeverity.off)) {
-									settings.validate = Validate.on;
-									if (assumeFlatConfig && configType === 'eslintrc') {
-										connection.console.info(`Expected to use flat configuration from directory ${settings.workingDirectory?.directory} but loaded eslintrc config.`);
-									}
+								if (await eslintClass.isPathIgnored(filePath)) {
+									explanation?.push('Probing: ESLint ignores the file.');
+									return [undefined, undefined];
+								} else {
+									return [await eslintClass.calculateConfigForFile(filePath), ESLintClass.getConfigType(eslintClass)];
 								}
-							} catch (error: any) {
-								settings.validate = Validate.off;
-								await connection.sendNotification(StatusNotification.type, { uri, state: Status.error });
-								connection.console.error(`Calculating config file for ${uri}) failed.\n${error instanceof Error ? error.stack : ''}`);
-							}
-						} else if (parserRegExps !== undefined || pluginName !== undefined || parserOptions !== undefined) {
-							const [eslintConfig, configType] = await ESLint.withClass(async (eslintClass) => {
-								try {
-									if (await eslintClass.isPathIgnored(filePath)) {
-										return [undefined, undefined];
-									} else {
-										return [await eslintClass.calculateConfigForFile(filePath), ESLintClass.getConfigType(eslintClass)];
-									}
-								} catch (err) {
+							} catch (err) {
+								explanation?.push(`Probing: calculating the configuration failed: ${err instanceof Error ? err.message : String(err)}`);
+								if (explanation === undefined) {
 									try {
 										await connection.sendNotification(StatusNotification.type, { uri, state: Status.error });
 										connection.console.error(`Calculating config file for ${uri}) failed.\n${err instanceof Error ? err.stack : ''}`);
 									} catch {
 										// little we can do here
 									}
-									return [undefined, undefined];
 								}
-							}, settings);
-							if (eslintConfig !== undefined) {
-								if (assumeFlatConfig && configType === 'eslintrc') {
-									connection.console.info(`Expected to use flat configuration from directory ${settings.workingDirectory?.directory} but loaded eslintrc config.`);
-								}
-								if (configType === 'flat' || ESLintModule.isFlatConfig(settings.library)) {
-									// We have a flat configuration. This means that the config file needs to
-									// have a section per file extension we want to validate. If there is none than
-									// `calculateConfigForFile` will return no config since the config options without
-									// a `files` property only applies to `**/*.js, **/*.cjs, and **/*.mjs` by default
-									// See https://eslint.org/docs/latest/user-guide/configuring/configuration-files-new#specifying-files-and-ignores
-
-									// This means since we have found a configuration for the given file we assume that
-									// that configuration is correctly pointing to a parser.
+								return [undefined, undefined];
+							}
+						}, settings);
+						probedConfigType = configType;
+						if (eslintConfig !== undefined) {
+							if (assumeFlatConfig && configType === 'eslintrc') {
+								connection.console.info(`Expected to use flat configuration from directory ${settings.workingDirectory?.directory} but loaded eslintrc config.`);
+							}
+							if (configType === 'flat' || ESLintModule.isFlatConfig(settings.library)) {
+								explanation?.push('Probing: a flat configuration applies to the file. Flat configs are trusted to point to a matching parser.');
+								// We have a flat configuration. This means that the config file needs to
+								// have a section per file extension we want to validate. If there is none than
+								// `calculateConfigForFile` will return no config since the config options without
+								// a `files` property only applies to `**/*.js, **/*.cjs, and **/*.mjs` by default
+								// See https://eslint.org/docs/latest/user-guide/configuring/configuration-files-new#specifying-files-and-ignores
+
+								// This means since we have found a configuration for the given file we assume that
+								// that configuration is correctly pointing to a parser.
+								settings.validate = Validate.on;
+							} else {
+								const probe = probeEslintrcConfig(document.languageId, eslintConfig);
+								if (probe.validated) {
 									settings.validate = Validate.on;
-								} else {
-									const parser: string | undefined =  eslintConfig.parser !== null
-										? normalizePath(eslintConfig.parser)
-										: undefined;
-									if (parser !== undefined) {
-										if (parserRegExps !== undefined) {
-											for (const regExp of parserRegExps) {
-												if (regExp.test(parser)) {
-													settings.validate = Validate.on;
-													break;
-												}
-											}
-										}
-										if (settings.validate !== Validate.on && parserOptions !== undefined && typeof eslintConfig.parserOptions?.parser === 'string') {
-											const eslintConfigParserOptionsParser = normalizePath(eslintConfig.parserOptions.parser);
-											for (const regExp of parserOptions.regExps) {
-												if (regExp.test(parser) && (
-													parserOptions.parsers.has(eslintConfig.parserOptions.parser) ||
-											parserOptions.parserRegExps !== undefined && parserOptions.parserRegExps.some(parserRegExp => parserRegExp.test(eslintConfigParserOptionsParser))
-												)) {
-													settings.validate = Validate.on;
-													break;
-												}
-											}
-										}
-									}
-									if (settings.validate !== Validate.on && Array.isArray(eslintConfig.plugins) && eslintConfig.plugins.length > 0 && pluginName !== undefined) {
-										for (const name of eslintConfig.plugins) {
-											if (name === pluginName) {
-												settings.validate = Validate.on;
-												break;
-											}
-										}
-									}
 								}
+								explanation?.push(`Probing: ${probe.reason}`);
 							}
+						} else if (configType !== undefined) {
+							explanation?.push('Probing: no configuration applies to the file.');
 						}
 					}
-					if (settings.validate === Validate.off) {
-						const params: ProbeFailedParams = { textDocument: { uri: document.uri } };
-						void connection.sendRequest(ProbeFailedRequest.type, params);
-					}
+				} else {
+					explanation?.push('Probing: the document has no file path ESLint can lint.');
 				}
-				if (settings.validate === Validate.on) {
-					settings.silent = false;
-					if (settings.format && TextDocumentSettings.hasLibrary(settings) && !formatterRegistrations.has(uri)) {
-						const Uri = URI.parse(uri);
-						const isFile = Uri.scheme === 'file';
-						let pattern: string = isFile
-							? Uri.fsPath.replace(/\\/g, '/')
-							: Uri.fsPath;
-						pattern = pattern.replace(/[\[\]\{\}]/g, '?');
-
-						const filter: DocumentFilter = { scheme: Uri.scheme, pattern: pattern };
-						const options: DocumentFormattingRegistrationOptions = { documentSelector: [filter] };
-						if (!isFile) {
-							formatterRegistrations.set(uri, connection.client.register(DocumentFormattingRequest.type, options));
-						} else {
-							const filePath = inferFilePath(uri, settings.useRealpaths)!;
-							await ESLint.withClass(async (eslintClass) => {
-								if (!await eslintClass.isPathIgnored(filePath)) {
-									formatterRegistrations.set(uri, connection.client.register(DocumentFormattingRequest.type, options));
-								}
-							}, settings);
-						}
-					}
+				if (settings.validate === Validate.off && explanation === undefined) {
+					const params: ProbeFailedParams = { textDocument: { uri: document.uri } };
+					void connection.sendRequest(ProbeFailedRequest.type, params);
+				} else if (settings.validate === Validate.on && explanation === undefined) {
+					const params: ProbeSucceededParams = { textDocument: { uri: document.uri }, flatConfig: probedConfigType === 'flat' || ESLintModule.isFlatConfig(settings.library) };
+					void connection.sendNotification(ProbeSucceededNotification.type, params);
 				}
-				return settings;
-			}, () => {
-				settings.validate = Validate.off;
-				if (!settings.silent) {
-					void connection.sendRequest(NoESLintLibraryRequest.type, { source: { uri: document.uri } });
+			}
+			if (settings.validate === Validate.on) {
+				settings.silent = false;
+				if (settings.format && TextDocumentSettings.hasLibrary(settings) && !formatterRegistrations.has(uri) && explanation === undefined) {
+					const Uri = URI.parse(uri);
+					const isFile = Uri.scheme === 'file';
+					let pattern: string = isFile
+						? Uri.fsPath.replace(/\\/g, '/')
+						: Uri.fsPath;
+					pattern = pattern.replace(/[\[\]\{\}]/g, '?');
+
+					const filter: DocumentFilter = { scheme: Uri.scheme, pattern: pattern };
+					const options: DocumentFormattingRegistrationOptions = { documentSelector: [filter] };
+					if (!isFile) {
+						formatterRegistrations.set(uri, connection.client.register(DocumentFormattingRequest.type, options));
+					} else {
+						const filePath = inferFilePath(uri, settings.useRealpaths)!;
+						await ESLint.withClass(async (eslintClass) => {
+							if (!await eslintClass.isPathIgnored(filePath)) {
+								formatterRegistrations.set(uri, connection.client.register(DocumentFormattingRequest.type, options));
+							}
+						}, settings);
+					}
 				}
-				return settings;
-			});
+			}
+			return settings;
+		}, () => {
+			settings.validate = Validate.off;
+			explanation?.push('The ESLint library could not be resolved.');
+			if (!settings.silent && explanation === undefined) {
+				void connection.sendRequest(NoESLintLibraryRequest.type, { source: { uri: document.uri } });
+			}
+			return settings;
 		});
-		document2Settings.set(uri, resultPromise);
-		return resultPromise;
 	}
 
-	export async function newClass(library: ESLintModule, newOptions: ESLintClassOptions | CLIOptions, settings: TextDocumentSettings): Promise<ESLintClass> {
-		// Since ESLint version 8.57 we have a dedicated loadESLint function
-		// which takes care of loading the right ESLint class. We available
-		// we use it.
-		if (ESLintModule.hasLoadESLint(library)) {
+	function resolveLibraryPath(settings: TextDocumentSettings, workspaceFolderPath: string | undefined, moduleResolveWorkingDirectory: string | undefined): Promise<string> {
+		let nodePath: string | undefined;
+		if (settings.nodePath !== null) {
+			nodePath = settings.nodePath;
+			if (!path.isAbsolute(nodePath) && workspaceFolderPath !== undefined) {
+				nodePath = path.join(workspaceFolderPath, nodePath);
+			}
+		}
+		// During Flat Config is considered experimental,
+		// we need to import FlatESLint from 'eslint/use-at-your-own-risk'.
+		// See: https://eslint.org/blog/2022/08/new-config-system-part-3/
+		const eslintPath = settings.experimental?.useFlatConfig ? 'eslint/use-at-your-own-risk' : 'eslint';
+		if (nodePath !== undefined) {
+			return Files.resolve(eslintPath, nodePath, nodePath, trace).then<string, string>(undefined, () => {
+				return Files.resolve(eslintPath, settings.resolvedGlobalPackageManagerPath, moduleResolveWorkingDirectory, trace);
+			});
+		} else {
+			return Files.resolve(eslintPath, settings.resolvedGlobalPackageManagerPath, moduleResolveWorkingDirectory, trace);
+		}
+	}
+
+	/**
+	 * Loads the ESLint library from the given path and stores it in the settings.
+	 * If the library can't be loaded validation is turned off.
+	 */
+	function loadLibrary(libraryPath: string, settings: TextDocumentSettings): void {
+		let library = path2Library.get(libraryPath);
+		if (library === undefined) {
+			if (settings.experimental?.useFlatConfig === true) {
+				const lib = loadNodeModule<{ FlatESLint?: ESLintClassConstructor }>(libraryPath);
+				if (lib === undefined) {
+					settings.validate = Validate.off;
+					if (!settings.silent) {
+						connection.console.error(`Failed to load eslint library from ${libraryPath}. If you are using ESLint v8.21 or earlier, try upgrading it. For newer versions, try disabling the 'eslint.experimental.useFlatConfig' setting. See the output panel for more information.`);
+					}
+				} else if (lib.FlatESLint === undefined) {
+					settings.validate = Validate.off;
+					connection.console.error(`The eslint library loaded from ${libraryPath} doesn\'t export a FlatESLint class.`);
+				} else {
+					connection.console.info(`ESLint library loaded from: ${libraryPath}`);
+					// pretend to be a regular eslint endpoint
+					library = {
+						ESLint: lib.FlatESLint,
+						isFlatConfig: true,
+						CLIEngine: undefined,
+					};
+					settings.library = library;
+					path2Library.set(libraryPath, library);
+				}
+			} else {
+				library = loadNodeModule(libraryPath);
+				if (library === undefined) {
+					settings.validate = Validate.off;
+					if (!settings.silent) {
+						connection.console.error(`Failed to load eslint library from ${libraryPath}. See output panel for more information.`);
+					}
+				} else if (library.CLIEngine === undefined && library.ESLint === undefined) {
+					settings.validate = Validate.off;
+					connection.console.error(`The eslint library loaded from ${libraryPath} doesn\'t export neither a CLIEngine nor an ESLint class. You need at least eslint@1.0.0`);
+				} else {
+					connection.console.info(`ESLint library loaded from: ${libraryPath}`);
+					settings.library = library;
+					path2Library.set(libraryPath, library);
+				}
+			}
+			if (library !== undefined && ESLintModule.hasESLintClass(library) && typeof library.ESLint.version === 'string') {
+				const esLintVersion = semverParse(library.ESLint.version);
+				if (esLintVersion !== null) {
+					if (semverGte(esLintVersion, '10.0.0') && (typeof settings.experimental?.useFlatConfig !== 'undefined' || typeof settings.useFlatConfig !== 'undefined')) {
+						connection.console.info(`ESLint version ${library.ESLint.version} only supports flat configs. The useFlatConfig setting is ignored.`);
+					} else if (semverGte(esLintVersion, '8.57.0') && settings.experimental?.useFlatConfig === true) {
+						connection.console.info(`ESLint version ${library.ESLint.version} supports flat config without experimental opt-in. The 'eslint.experimental.useFlatConfig' setting can be removed.`);
+					}
+					if (semverGte(esLintVersion, '10.0.0') && settings.configLookup === 'cwd') {
+						connection.console.info(`ESLint version ${library.ESLint.version} always looks up the configuration from the file's directory. The 'eslint.configLookup' setting is ignored.`);
+					} else if (!semverGte(esLintVersion, '9.12.0') && settings.configLookup === 'file') {
+						connection.console.info(`ESLint version ${library.ESLint.version} can't look up the configuration from the file's directory. This requires ESLint version 9.12 or later.`);
+					}
+					if (settings.bulkSuppression?.enable && !semverGte(esLintVersion, '10.1.0')) {
+						connection.console.info(`ESLint version ${library.ESLint.version} does not support bulk suppressions via the Node.js API. The suppressions file is applied by the extension instead.`);
+					}
+				}
+			}
+		} else {
+			settings.library = library;
+		}
+	}
+
+	export async function newClass(library: ESLintModule, newOptions: ESLintClassOptions | CLIOptions, settings: TextDocumentSettings): Promise<ESLintClass> {
+		// Since ESLint version 8.57 we have a dedicated loadESLint function
+		// which takes care of loading the right ESLint class. We available
+		// we use it.
+		if (ESLintModule.hasLoadESLint(library)) {
+			const flag = getConfigLookup(library, settings).flag;
+			if (flag !== undefined) {
+				newOptions = Object.assign({}, newOptions, { flags: [...((newOptions as ESLintClassOptions).flags ?? []), flag] });
+			}
 			return new (await library.loadESLint({ useFlatConfig: settings.useFlatConfig }))(newOptions);
 		}
 		// If we have version 7 where we have both ESLint class and CLIEngine we only
@@ -1217,6 +1732,113 @@ export namespace ESLint {
 		return new library.ESLint(newOptions);
 	}
 
+	/**
+	 * Returns whether ESLint looks up the flat configuration from the directory of the linted
+	 * file and the flag ESLint 9 needs for it. ESLint 10 always does so. ESLint 9 does so if
+	 * `eslint.configLookup` is `file` or the flag is part of `eslint.options`.
+	 */
+	function getConfigLookup(library: ESLintModule, settings: TextDocumentSettings): { fromFile: boolean; flag?: string } {
+		if (!ESLintModule.hasESLintClass(library) || typeof library.ESLint.version !== 'string' || settings.useFlatConfig === false) {
+			return { fromFile: false };
+		}
+		const version = semverParse(library.ESLint.version);
+		if (version === null || !semverGte(version, '9.12.0')) {
+			return { fromFile: false };
+		}
+		if (semverGte(version, '10.0.0')) {
+			return { fromFile: true };
+		}
+		const flags = (settings.options as ESLintClassOptions | undefined)?.flags;
+		if (Array.isArray(flags) && flags.some(flag => flag === 'v10_config_lookup_from_file' || flag === 'unstable_config_lookup_from_file')) {
+			return { fromFile: true };
+		}
+		if (settings.configLookup !== 'file') {
+			return { fromFile: false };
+		}
+		// The flag got renamed when the feature was stabilized for ESLint 10.
+		return { fromFile: true, flag: semverGte(version, '9.30.0') ? 'v10_config_lookup_from_file' : 'unstable_config_lookup_from_file' };
+	}
+
+	/**
+	 * Returns a cached ESLint class instance for the given options. Creating an instance
+	 * loads the configuration which is expensive for typed configurations. Instances are
+	 * keyed by library, working directory, configuration mode and options.
+	 */
+	function getClass(library: ESLintModule, newOptions: ESLintClassOptions | CLIOptions, settings: TextDocumentSettings): Promise<ESLintClass> {
+		const key = computeClassKey(library, newOptions, settings);
+		let result = classCache.get(key);
+		if (result !== undefined) {
+			classCacheStats.hits++;
+			connection.tracer.log(`Reusing ESLint instance for ${newOptions.cwd ?? process.cwd()} (hits: ${classCacheStats.hits}, misses: ${classCacheStats.misses})`);
+			return result;
+		}
+		classCacheStats.misses++;
+		connection.tracer.log(`Creating ESLint instance for ${newOptions.cwd ?? process.cwd()} (hits: ${classCacheStats.hits}, misses: ${classCacheStats.misses})`);
+		result = newClass(library, newOptions, settings);
+		result.catch(() => {
+			// Don't keep failed instances around. The configuration might get fixed.
+			if (classCache.peek(key) === result) {
+				classCache.delete(key);
+				class2Cwd.delete(key);
+			}
+		});
+		classCache.set(key, result);
+		class2Cwd.set(key, newOptions.cwd ?? process.cwd());
+		return result;
+	}
+
+	function getLibraryPath(library: ESLintModule): string | undefined {
+		for (const [key, value] of path2Library) {
+			if (value === library) {
+				return key;
+			}
+		}
+		return undefined;
+	}
+
+	function computeClassKey(library: ESLintModule, newOptions: ESLintClassOptions | CLIOptions, settings: TextDocumentSettings): string {
+		const libraryPath = getLibraryPath(library);
+		const mode = ESLintModule.isFlatConfig(library) || settings.useFlatConfig === true
+			? 'flat'
+			: settings.useFlatConfig === false ? 'eslintrc' : 'default';
+		const hash = crypto.createHash('sha256');
+		hash.update(JSON.stringify(newOptions));
+		return `${libraryPath ?? ''}|${newOptions.cwd ?? process.cwd()}|${mode}|${settings.configLookup}|${settings.useESLintClass === true}|${hash.digest('base64')}`;
+	}
+
+	/**
+	 * Drops the cached ESLint class instances. If directories are given only instances
+	 * whose working directory contains one of them or is located in one of them are
+	 * dropped since only those lint files below the directories.
+	 */
+	export function clearClasses(directories?: string[]): void {
+		if (directories === undefined) {
+			classCache.clear();
+			class2Cwd.clear();
+			return;
+		}
+		for (const [key, cwd] of Array.from(class2Cwd)) {
+			if (!classCache.has(key) || directories.some(directory => isInDirectory(cwd, directory) || isInDirectory(directory, cwd))) {
+				classCache.delete(key);
+				class2Cwd.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Forgets the loaded ESLint libraries, for example after ESLint got installed or updated.
+	 * Returns the `node_modules` directories the libraries got loaded from.
+	 */
+	export function clearLibraries(): string[] {
+		const result: Set<string> = new Set();
+		for (const libraryPath of path2Library.keys()) {
+			const index = libraryPath.lastIndexOf(`${path.sep}node_modules${path.sep}`);
+			result.add(index !== -1 ? path.join(libraryPath.substring(0, index), 'node_modules') : path.dirname(libraryPath));
+		}
+		path2Library.clear();
+		return Array.from(result);
+	}
+
 	export async function withClass<T>(func: (eslintClass: ESLintClass) => Promise<T>, settings: TextDocumentSettings & { library: ESLintModule }, options?: ESLintClassOptions | CLIOptions): Promise<T> {
 		const newOptions: ESLintClassOptions | CLIOptions = options === undefined
 			? Object.assign(Object.create(null), settings.options)
@@ -1234,7 +1856,7 @@ export namespace ESLint {
 				}
 			}
 
-			const eslintClass = await newClass(settings.library, newOptions, settings);
+			const eslintClass = await getClass(settings.library, newOptions, settings);
 			// We need to await the result to ensure proper execution of the
 			// finally block.
 			return await func(eslintClass);
@@ -1245,6 +1867,13 @@ export namespace ESLint {
 		}
 	}
 
+	/**
+	 * The working directory `withClass` creates the ESLint class with.
+	 */
+	export function getCwd(settings: TextDocumentSettings): string {
+		return settings.workingDirectory !== undefined ? normalizeWorkingDirectory(settings.workingDirectory.directory) : process.cwd();
+	}
+
 	function normalizeWorkingDirectory(value: string): string {
 		const result = normalizeDriveLetter(value);
 		if (result.length === 0) {
@@ -1262,7 +1891,7 @@ export namespace ESLint {
 		const uri = URI.parse(document.uri);
 		if (uri.scheme !== 'file') {
 			if (settings.workspaceFolder !== undefined) {
-				const ext = LanguageDefaults.getExtension(document.languageId);
+				const ext = LanguageDefaults.getExtension(document.languageId, settings.languages);
 				const workspacePath = inferFilePath(settings.workspaceFolder.uri, settings.useRealpaths);
 				if (workspacePath !== undefined && ext !== undefined) {
 					return path.join(workspacePath, `test.${ext}`);
@@ -1274,6 +1903,48 @@ export namespace ESLint {
 		}
 	}
 
+	/**
+	 * Whether the ESLint library applies bulk suppressions itself. Its Node.js API
+	 * supports them since version 10.1.
+	 */
+	function supportsSuppressions(library: ESLintModule): boolean {
+		if (!ESLintModule.hasESLintClass(library) || typeof library.ESLint.version !== 'string') {
+			return false;
+		}
+		const version = semverParse(library.ESLint.version);
+		return version !== null && semverGte(version, '10.1.0');
+	}
+
+	/**
+	 * The suppressions files read to emulate bulk suppressions. They are read again if
+	 * their modification time changes.
+	 */
+	const baselines: Map<string, { mtime: number; content: Suppressions.Content }> = new Map();
+
+	function getBaseline(settings: TextDocumentSettings, filePath: string): { content: Suppressions.Content; key: string } | undefined {
+		const location = getSuppressionsLocation(settings);
+		let mtime: number;
+		try {
+			mtime = fs.statSync(location.filePath).mtimeMs;
+		} catch {
+			baselines.delete(location.filePath);
+			return undefined;
+		}
+		let baseline = baselines.get(location.filePath);
+		if (baseline === undefined || baseline.mtime !== mtime) {
+			let content: Suppressions.Content;
+			try {
+				content = Suppressions.read(location.filePath);
+			} catch (error: any) {
+				connection.console.error(`Reading the suppressions file ${location.filePath} failed: ${error?.message ?? error}`);
+				content = {};
+			}
+			baseline = { mtime, content };
+			baselines.set(location.filePath, baseline);
+		}
+		return { content: baseline.content, key: Suppressions.getKey(location.cwd, filePath) };
+	}
+
 	function bulkSeverity(severity?: 'error' | 'warn' | 'info' | 'hint'): DiagnosticSeverity {
 		switch (severity) {
 			case 'error': return DiagnosticSeverity.Error;
@@ -1283,7 +1954,17 @@ export namespace ESLint {
 		}
 	}
 
-	const validFixTypes = new Set<string>(['problem', 'suggestion', 'layout', 'directive']);
+	export const validFixTypes: ReadonlySet<string> = new Set<string>(['problem', 'suggestion', 'layout', 'directive']);
+
+	/**
+	 * Tests whether the fix of a problem reported for the given rule has one of the
+	 * given fix types.
+	 */
+	export function hasFixType(ruleId: string, fixTypes: ReadonlySet<string>, settings: TextDocumentSettings): boolean {
+		const type = RuleMetaData.getType(ruleId, settings);
+		return type !== undefined && fixTypes.has(type);
+	}
+
 	export async function validate(document: TextDocument, settings: TextDocumentSettings & { library: ESLintModule }): Promise<Diagnostic[]> {
 		const newOptions: CLIOptions = Object.assign(Object.create(null), settings.options);
 		let fixTypes: Set<string> | undefined = undefined;
@@ -1300,10 +1981,92 @@ export namespace ESLint {
 		}
 
 		const content = document.getText();
+		const version = document.version;
 		const uri = document.uri;
 		const file = getFilePath(document, settings);
 
-		const suppressionOptions: ESLintClassOptions = settings.bulkSuppression?.enable
+		const baseline = file !== undefined ? getEmulatedBaseline(settings, file) : undefined;
+
+		return withClass(async (eslintClass) => {
+			CodeActions.remove(uri);
+			const reportResults: ESLintDocumentReport[] = await eslintClass.lintText(content, { filePath: file, warnIgnored: settings.onIgnoredFiles !== ESLintSeverity.off });
+			RuleMetaData.capture(eslintClass, reportResults, settings);
+			if (!reportResults || !Array.isArray(reportResults) || reportResults.length === 0) {
+				return [];
+			}
+			return createDiagnostics(reportResults[0], document, settings, baseline, (diagnostic, problem) => {
+				if (fixTypes !== undefined && problem.ruleId !== undefined && problem.fix !== undefined) {
+					if (hasFixType(problem.ruleId, fixTypes, settings)) {
+						CodeActions.record(document, version, diagnostic, problem);
+					}
+				} else {
+					if (RuleMetaData.isUnusedDisableDirectiveProblem(problem)) {
+						problem.ruleId = RuleMetaData.unusedDisableDirectiveId;
+					}
+
+					CodeActions.record(document, version, diagnostic, problem);
+				}
+			});
+		}, settings, getValidationOptions(settings));
+	}
+
+	/**
+	 * Returns the suppressions baseline of a file if ESLint doesn't apply bulk suppressions
+	 * itself and they have to be emulated.
+	 */
+	function getEmulatedBaseline(settings: TextDocumentSettings & { library: ESLintModule }, filePath: string): { content: Suppressions.Content; key: string } | undefined {
+		return settings.bulkSuppression?.enable === true && !supportsSuppressions(settings.library) ? getBaseline(settings, filePath) : undefined;
+	}
+
+	/**
+	 * Converts the problems ESLint reported for a document into diagnostics. Errors
+	 * suppressed by the baseline and problems ESLint suppressed itself are reported
+	 * with the severity of `eslint.bulkSuppression`. `record` is called for every other
+	 * problem.
+	 */
+	function createDiagnostics(docReport: ESLintDocumentReport, document: TextDocument, settings: TextDocumentSettings, baseline: { content: Suppressions.Content; key: string } | undefined, record?: (diagnostic: Diagnostic, problem: ESLintProblem) => void): Diagnostic[] {
+		const diagnostics: Diagnostic[] = [];
+		const suppressedRules = baseline !== undefined ? Suppressions.getSuppressedRules(baseline.content, baseline.key, countRuleErrors(docReport)) : undefined;
+		if (docReport.messages && Array.isArray(docReport.messages)) {
+			docReport.messages.forEach((problem) => {
+				if (problem) {
+					const [diagnostic, override] = Diagnostics.create(settings, problem, document);
+					if (suppressedRules !== undefined && problem.severity === 2 && suppressedRules.has(problem.ruleId)) {
+						if (override !== RuleSeverity.off) {
+							diagnostic.severity = bulkSeverity(settings.bulkSuppression.severity);
+							diagnostics.push(diagnostic);
+						}
+						return;
+					}
+					if (isReported(diagnostic, override, settings)) {
+						diagnostics.push(diagnostic);
+					}
+					record?.(diagnostic, problem);
+				}
+			});
+		}
+		// Bulk-suppressed diagnostics intentionally bypass `quiet` mode: they are opt-in
+		// and already represent a deliberate visibility decision by the user.
+		if (settings.bulkSuppression?.enable && docReport.suppressedMessages && Array.isArray(docReport.suppressedMessages)) {
+			for (const problem of docReport.suppressedMessages) {
+				if (problem && problem.suppressions?.some(s => s.kind === 'file')) {
+					const [diagnostic, override] = Diagnostics.create(settings, problem, document);
+					if (override !== RuleSeverity.off) {
+						diagnostic.severity = bulkSeverity(settings.bulkSuppression.severity);
+						diagnostics.push(diagnostic);
+					}
+				}
+			}
+		}
+		return diagnostics;
+	}
+
+	/**
+	 * The options passed to the ESLint class in addition to `eslint.options` when
+	 * validating a document.
+	 */
+	function getValidationOptions(settings: TextDocumentSettings & { library: ESLintModule }): ESLintClassOptions {
+		return settings.bulkSuppression?.enable && supportsSuppressions(settings.library)
 			? {
 				applySuppressions: true,
 				...(settings.bulkSuppression.location
@@ -1311,52 +2074,337 @@ export namespace ESLint {
 					: {}),
 			}
 			: {};
+	}
 
+	/**
+	 * Computes the configuration ESLint uses for a document. The ESLint class is created
+	 * with the same working directory and options the document is validated with.
+	 */
+	export async function getEffectiveConfig(document: TextDocument, settings: TextDocumentSettings & { library: ESLintModule }): Promise<EffectiveConfigResult | undefined> {
+		const filePath = getFilePath(document, settings);
+		if (filePath === undefined) {
+			return undefined;
+		}
 		return withClass(async (eslintClass) => {
-			CodeActions.remove(uri);
-			const reportResults: ESLintDocumentReport[] = await eslintClass.lintText(content, { filePath: file, warnIgnored: settings.onIgnoredFiles !== ESLintSeverity.off });
-			RuleMetaData.capture(eslintClass, reportResults);
-			const diagnostics: Diagnostic[] = [];
-			if (reportResults && Array.isArray(reportResults) && reportResults.length > 0) {
-				const docReport = reportResults[0];
-				if (docReport.messages && Array.isArray(docReport.messages)) {
-					docReport.messages.forEach((problem) => {
-						if (problem) {
-							const [diagnostic, override] = Diagnostics.create(settings, problem, document);
-							if (!(override === RuleSeverity.off || (settings.quiet && (diagnostic.severity === DiagnosticSeverity.Warning || diagnostic.severity === DiagnosticSeverity.Information)))) {
-								diagnostics.push(diagnostic);
-							}
-							if (fixTypes !== undefined && problem.ruleId !== undefined && problem.fix !== undefined) {
-								const type = RuleMetaData.getType(problem.ruleId);
-								if (type !== undefined && fixTypes.has(type)) {
-									CodeActions.record(document, diagnostic, problem);
-								}
-							} else {
-								if (RuleMetaData.isUnusedDisableDirectiveProblem(problem)) {
-									problem.ruleId = RuleMetaData.unusedDisableDirectiveId;
-								}
+			const config = await eslintClass.calculateConfigForFile(filePath);
+			return {
+				filePath,
+				configType: ESLintClass.getConfigType(eslintClass),
+				libraryPath: getLibraryPath(settings.library),
+				workingDirectory: getCwd(settings),
+				config: config !== undefined ? toJSON(config) : null
+			};
+		}, settings, getValidationOptions(settings));
+	}
 
-								CodeActions.record(document, diagnostic, problem);
-							}
-						}
-					});
+	/**
+	 * Converts a configuration into plain JSON. Flat configs know how to serialize
+	 * themselves but fail for plugins or parsers without meta data. In that case
+	 * plugins are listed by name and functions are left out.
+	 */
+	function toJSON(config: object): object {
+		try {
+			return JSON.parse(JSON.stringify(config));
+		} catch {
+			const copy = Object.assign({}, config) as Record<string, unknown>;
+			if (copy.plugins !== null && typeof copy.plugins === 'object' && !Array.isArray(copy.plugins)) {
+				copy.plugins = Object.keys(copy.plugins);
+			}
+			return toPlainValue(copy, new Set()) as object;
+		}
+	}
+
+	function toPlainValue(value: unknown, parents: Set<object>): unknown {
+		if (typeof value === 'function') {
+			return undefined;
+		}
+		if (value === null || typeof value !== 'object') {
+			return value;
+		}
+		if (parents.has(value)) {
+			return '[Circular]';
+		}
+		parents.add(value);
+		try {
+			if (Array.isArray(value)) {
+				return value.map(item => toPlainValue(item, parents) ?? null);
+			}
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				const converted = toPlainValue(item, parents);
+				if (converted !== undefined) {
+					result[key] = converted;
 				}
-				// Bulk-suppressed diagnostics intentionally bypass `quiet` mode: they are opt-in
-				// and already represent a deliberate visibility decision by the user.
-				if (settings.bulkSuppression?.enable && docReport.suppressedMessages && Array.isArray(docReport.suppressedMessages)) {
-					for (const problem of docReport.suppressedMessages) {
-						if (problem && problem.suppressions?.some(s => s.kind === 'file')) {
-							const [diagnostic, override] = Diagnostics.create(settings, problem, document);
-							if (override !== RuleSeverity.off) {
-								diagnostic.severity = bulkSeverity(settings.bulkSuppression.severity);
-								diagnostics.push(diagnostic);
-							}
-						}
+			}
+			return result;
+		} finally {
+			parents.delete(value);
+		}
+	}
+
+	function isReported(diagnostic: Diagnostic, override: RuleSeverity | undefined, settings: TextDocumentSettings): boolean {
+		return !(override === RuleSeverity.off || (settings.quiet && (diagnostic.severity === DiagnosticSeverity.Warning || diagnostic.severity === DiagnosticSeverity.Information)));
+	}
+
+	/**
+	 * Computes the working directory of a file on disk that is not open in an editor the way
+	 * `resolveSettings` does for documents. `configuration` is the configuration of the file.
+	 * `getSettings` resolves the settings of a working directory. It's only called if the
+	 * configuration lookup of the ESLint library decides about the working directory.
+	 */
+	export async function getWorkingDirectory(configuration: ConfigurationSettings, workspaceFolderPath: string, filePath: string, getSettings: (workingDirectory: DirectoryItem) => Promise<TextDocumentSettings>): Promise<DirectoryItem> {
+		const resolved = resolveWorkingDirectory(Object.assign(createDefaultConfigurationSettings(), configuration), workspaceFolderPath, filePath, undefined);
+		const workingDirectory = resolved.workingDirectory ?? { directory: workspaceFolderPath };
+		if (!resolved.followsConfigLookup || findFlatConfigFile(filePath) === undefined) {
+			return workingDirectory;
+		}
+		const settings = await getSettings(workingDirectory);
+		const configFile = TextDocumentSettings.hasLibrary(settings) ? findLookupConfigFile(settings, filePath) : undefined;
+		return configFile !== undefined ? { directory: path.dirname(configFile) } : workingDirectory;
+	}
+
+	/**
+	 * Resolves the settings to lint files on disk inside the given working directory.
+	 * Files on disk are linted without a text document so the settings are shared by
+	 * all files of a working directory.
+	 */
+	export async function resolveWorkingDirectorySettings(configuration: ConfigurationSettings, workspaceFolderPath: string, workingDirectory: DirectoryItem): Promise<TextDocumentSettings> {
+		const settings: TextDocumentSettings = Object.assign(
+			{},
+			createDefaultConfigurationSettings(),
+			configuration,
+			{ silent: true, library: undefined, resolvedGlobalPackageManagerPath: undefined },
+			{ validate: Validate.on, workingDirectory }
+		);
+		settings.resolvedGlobalPackageManagerPath = GlobalPaths.get(settings.packageManager);
+		try {
+			const libraryPath = await resolveLibraryPath(settings, workspaceFolderPath, workingDirectory.directory);
+			loadLibrary(libraryPath, settings);
+		} catch {
+			settings.validate = Validate.off;
+		}
+		return settings;
+	}
+
+	/**
+	 * Lints files on disk using ESLint's `lintFiles`. Files ignored by ESLint are
+	 * skipped. Files listed in `probed` are only linted if an eslintrc configuration
+	 * supports their language, like probed documents. The result maps every linted
+	 * file path to its diagnostics.
+	 */
+	export async function validateFiles(filePaths: string[], settings: TextDocumentSettings & { library: ESLintModule }, probed?: Map<string, string>): Promise<Map<string, Diagnostic[]>> {
+		return withClass(async (eslintClass) => {
+			const result: Map<string, Diagnostic[]> = new Map();
+			const toLint: string[] = [];
+			for (const [filePath, config] of await getLintableFiles(eslintClass, filePaths, probed !== undefined && probed.size > 0)) {
+				const languageId = probed?.get(filePath);
+				if (languageId === undefined || ESLintClass.getConfigType(eslintClass) === 'flat' || (config !== undefined && probeEslintrcConfig(languageId, config).validated)) {
+					toLint.push(filePath);
+				}
+			}
+			if (toLint.length === 0) {
+				return result;
+			}
+			const reportResults: ESLintDocumentReport[] = await eslintClass.lintFiles(toLint);
+			RuleMetaData.capture(eslintClass, reportResults, settings);
+			for (const docReport of reportResults) {
+				if ((docReport.messages?.length ?? 0) === 0 && (docReport.suppressedMessages?.length ?? 0) === 0) {
+					result.set(docReport.filePath, []);
+					continue;
+				}
+				const document = TextDocument.create(URI.file(docReport.filePath).toString(), '', 0, fs.readFileSync(docReport.filePath, 'utf8'));
+				result.set(docReport.filePath, createDiagnostics(docReport, document, settings, getEmulatedBaseline(settings, docReport.filePath)));
+			}
+			return result;
+		}, settings, getValidationOptions(settings));
+	}
+
+	/**
+	 * Lints empty content for a file to check whether the configuration applying to it
+	 * loads. Rejects if it doesn't. The ESLint class is created like the one validating
+	 * documents.
+	 */
+	export async function checkConfiguration(filePath: string, settings: TextDocumentSettings & { library: ESLintModule }): Promise<void> {
+		await withClass(async (eslintClass) => {
+			await eslintClass.lintText('', { filePath });
+		}, settings, getValidationOptions(settings));
+	}
+
+	/**
+	 * Returns the configuration of a rule that applies to a document as computed by
+	 * ESLint's `calculateConfigForFile`.
+	 */
+	export async function getRuleConfig(document: TextDocument, settings: TextDocumentSettings & { library: ESLintModule }, ruleId: string): Promise<RuleConf | undefined> {
+		const filePath = getFilePath(document, settings);
+		if (filePath === undefined) {
+			return undefined;
+		}
+		return withClass(async (eslintClass) => {
+			const config = await eslintClass.calculateConfigForFile(filePath);
+			return config?.rules?.[ruleId];
+		}, settings, getValidationOptions(settings));
+	}
+
+	// The number of files passed to ESLint's `lintFiles` at once.
+	const lintBatchSize: number = 20;
+
+	/**
+	 * Computes the fixed content of files on disk using ESLint's `lintFiles` with `fix: true`.
+	 * If rule ids are given all other rules configured for the files are turned off using
+	 * `overrideConfig`. The result maps the path of every file ESLint changed to its fixed
+	 * content. Nothing is written to disk.
+	 *
+	 * @param progress called with the number of processed files after every batch.
+	 */
+	export async function fixFiles(filePaths: string[], settings: TextDocumentSettings & { library: ESLintModule }, fixOptions: FixFilesOptions, token: CancellationToken, progress: (done: number) => void): Promise<Map<string, string>> {
+		const result: Map<string, string> = new Map();
+		const ruleIds = fixOptions.ruleIds;
+		const [file2Config, configType] = await withClass(async (eslintClass) => {
+			if ((ruleIds !== undefined || fixOptions.unusedDirectives === true) && eslintClass.isCLIEngine === true) {
+				throw new Error(`Fixing selected problems is not supported by the CLIEngine.`);
+			}
+			return [await getLintableFiles(eslintClass, filePaths, ruleIds !== undefined, token), ESLintClass.getConfigType(eslintClass)] as const;
+		}, settings);
+		// Files ESLint doesn't lint count as processed.
+		let done = filePaths.length - file2Config.size;
+		progress(done);
+		if (file2Config.size === 0 || token.isCancellationRequested) {
+			return result;
+		}
+		const options: ESLintClassOptions = fixOptions.unusedDirectives === true ? getUnusedDirectivesOptions(configType) : { fix: true };
+		if (ruleIds !== undefined) {
+			const overrideConfig = { rules: Object.create(null) };
+			for (const config of file2Config.values()) {
+				for (const ruleId of Object.keys(config?.rules ?? {})) {
+					if (!ruleIds.has(ruleId)) {
+						overrideConfig.rules[ruleId] = 'off';
 					}
 				}
 			}
-			return diagnostics;
-		}, settings, suppressionOptions);
+			options.overrideConfig = overrideConfig;
+		}
+		const toFix = Array.from(file2Config.keys());
+		return withClass(async (eslintClass) => {
+			for (let i = 0; i < toFix.length; i += lintBatchSize) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				const batch = toFix.slice(i, i + lintBatchSize);
+				const reportResults: ESLintDocumentReport[] = await eslintClass.lintFiles(batch);
+				for (const docReport of reportResults) {
+					if (docReport.output !== undefined) {
+						result.set(docReport.filePath, docReport.output);
+					}
+				}
+				done += batch.length;
+				progress(done);
+			}
+			return result;
+		}, settings, options);
+	}
+
+	/**
+	 * Removes the unused disable directives from the content of a document. They are
+	 * reported regardless of the configuration. Returns `undefined` if there is
+	 * nothing to remove.
+	 */
+	export async function removeUnusedDirectives(content: string, filePath: string | undefined, settings: TextDocumentSettings & { library: ESLintModule }): Promise<string | undefined> {
+		const configType = await withClass(async (eslintClass) => {
+			if (eslintClass.isCLIEngine === true) {
+				throw new Error(`Removing unused disable directives is not supported by the CLIEngine.`);
+			}
+			return ESLintClass.getConfigType(eslintClass);
+		}, settings);
+		return withClass(async (eslintClass) => {
+			const reportResults: ESLintDocumentReport[] = await eslintClass.lintText(content, { filePath });
+			return Array.isArray(reportResults) && reportResults.length === 1 ? reportResults[0].output : undefined;
+		}, settings, getUnusedDirectivesOptions(configType));
+	}
+
+	/**
+	 * Returns the bulk suppressions file used for the given settings and the directory
+	 * the paths in it are relative to. ESLint resolves both against its working directory.
+	 */
+	export function getSuppressionsLocation(settings: TextDocumentSettings): { filePath: string; cwd: string } {
+		const cwd = getCwd(settings);
+		return { filePath: path.resolve(cwd, settings.bulkSuppression?.location ?? Suppressions.defaultLocation), cwd };
+	}
+
+	/**
+	 * Counts the errors per rule ESLint reports for the content of a document without
+	 * applying bulk suppressions.
+	 */
+	export async function countErrors(content: string, filePath: string, settings: TextDocumentSettings & { library: ESLintModule }): Promise<Map<string, number>> {
+		return withClass(async (eslintClass) => {
+			const reportResults: ESLintDocumentReport[] = await eslintClass.lintText(content, { filePath });
+			return Array.isArray(reportResults) && reportResults.length === 1 ? countRuleErrors(reportResults[0]) : new Map();
+		}, settings);
+	}
+
+	/**
+	 * Counts the errors per rule ESLint reports for files on disk without applying bulk
+	 * suppressions. The result maps the path of every linted file to its counts.
+	 */
+	export async function countFileErrors(filePaths: string[], settings: TextDocumentSettings & { library: ESLintModule }, token: CancellationToken): Promise<Map<string, Map<string, number>>> {
+		const result: Map<string, Map<string, number>> = new Map();
+		return withClass(async (eslintClass) => {
+			for (let i = 0; i < filePaths.length; i += lintBatchSize) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				const reportResults: ESLintDocumentReport[] = await eslintClass.lintFiles(filePaths.slice(i, i + lintBatchSize));
+				for (const docReport of reportResults) {
+					result.set(docReport.filePath, countRuleErrors(docReport));
+				}
+			}
+			return result;
+		}, settings);
+	}
+
+	function countRuleErrors(docReport: ESLintDocumentReport): Map<string, number> {
+		const result: Map<string, number> = new Map();
+		for (const problem of docReport.messages ?? []) {
+			// Only errors can be suppressed.
+			if (problem.ruleId && problem.severity === 2) {
+				result.set(problem.ruleId, (result.get(problem.ruleId) ?? 0) + 1);
+			}
+		}
+		return result;
+	}
+
+	function getUnusedDirectivesOptions(configType: 'eslintrc' | 'flat'): ESLintClassOptions {
+		return {
+			fix: true,
+			fixTypes: ['directive'],
+			overrideConfig: configType === 'flat'
+				? { linterOptions: { reportUnusedDisableDirectives: true } }
+				: { reportUnusedDisableDirectives: true }
+		};
+	}
+
+	/**
+	 * Filters the files ESLint lints when running over a folder and returns them
+	 * together with their configuration if asked for.
+	 */
+	async function getLintableFiles(eslintClass: ESLintClass, filePaths: string[], withConfig: boolean, token?: CancellationToken): Promise<Map<string, ESLintConfig | undefined>> {
+		const result: Map<string, ESLintConfig | undefined> = new Map();
+		const isFlatConfig = ESLintClass.getConfigType(eslintClass) === 'flat';
+		for (const filePath of filePaths) {
+			if (token !== undefined && token.isCancellationRequested) {
+				break;
+			}
+			if (await eslintClass.isPathIgnored(filePath)) {
+				continue;
+			}
+			const config = isFlatConfig || withConfig ? await eslintClass.calculateConfigForFile(filePath) : undefined;
+			// Files passed explicitly to `lintFiles` are reported even if no section of a
+			// flat config applies to them. Only lint the ones the config is asking for.
+			if (isFlatConfig && config === undefined) {
+				continue;
+			}
+			result.set(filePath, config);
+		}
+		return result;
 	}
 
 	function trace(message: string, verbose?: string): void {
@@ -1401,6 +2449,24 @@ export namespace ESLint {
 		}
 	}
 
+	/**
+	 * Returns the flat configuration file closest to a file.
+	 */
+	export function findFlatConfigFile(file: string): string | undefined {
+		let directory: string | undefined = path.dirname(file);
+		while (directory !== undefined) {
+			for (const { fileName, isFlatConfig } of projectFolderIndicators) {
+				const candidate = path.join(directory, fileName);
+				if (isFlatConfig && fs.existsSync(candidate)) {
+					return candidate;
+				}
+			}
+			const parent = path.dirname(directory);
+			directory = parent !== directory ? parent : undefined;
+		}
+		return undefined;
+	}
+
 	export function findWorkingDirectory(workspaceFolder: string, file: string | undefined): [string, boolean] {
 		if (file === undefined || isUNC(file)) {
 			return [workspaceFolder, false];
@@ -1433,12 +2499,34 @@ export namespace ESLint {
 
 	export namespace ErrorHandlers {
 
-		export const single: ((error: any, document: TextDocument, library: ESLintModule, settings: TextDocumentSettings) => Status | undefined)[] = [
-			tryHandleNoConfig,
-			tryHandleConfigError,
-			tryHandleMissingModule,
-			showErrorMessage
-		];
+		/**
+		 * Reports an error that happened while validating a document to the user.
+		 */
+		export function handle(error: any, document: TextDocument, library: ESLintModule, settings: TextDocumentSettings): ESLintError.Classification {
+			const classification = ESLintError.classify(error, () => {
+				const filePath = inferFilePath(document, settings.useRealpaths);
+				return filePath !== undefined ? findFlatConfigFile(filePath) : undefined;
+			});
+			if (classification.location !== undefined) {
+				reportConfigError(error, document, library, settings, classification.location);
+			}
+			switch (classification.reason) {
+				case StatusReason.noConfig:
+					reportNoConfig(error, document, library);
+					break;
+				case StatusReason.missingModule:
+					reportMissingModule(error, document, library, settings, classification.detail!, classification.location?.filePath);
+					break;
+				case StatusReason.configError:
+					if (classification.location === undefined) {
+						connection.console.error(getMessage(error, document));
+					}
+					break;
+				default:
+					showErrorMessage(error, document);
+			}
+			return classification;
+		}
 
 		export function getMessage(err: any, document: TextDocument): string {
 			let result: string | undefined = undefined;
@@ -1460,10 +2548,11 @@ export namespace ESLint {
 			noConfigReported.clear();
 		}
 
-		function tryHandleNoConfig(error: any, document: TextDocument, library: ESLintModule): Status | undefined {
-			if (!ESLintError.isNoConfigFound(error)) {
-				return undefined;
-			}
+		export function removeNoConfigReported(uri: string): boolean {
+			return noConfigReported.delete(uri);
+		}
+
+		function reportNoConfig(error: any, document: TextDocument, library: ESLintModule): void {
 			if (!noConfigReported.has(document.uri)) {
 				connection.sendRequest(
 					NoConfigRequest.type,
@@ -1476,51 +2565,59 @@ export namespace ESLint {
 				).then(undefined, () => { });
 				noConfigReported.set(document.uri, library);
 			}
-			return Status.warn;
 		}
 
-		const configErrorReported: Map<string, { library: ESLintModule; settings: TextDocumentSettings }> = new Map();
+		type ConfigErrorReport = { library: ESLintModule; settings: TextDocumentSettings; message: string };
+
+		const configErrorReported: Map<string, ConfigErrorReport> = new Map();
 
-		export function getConfigErrorReported(key: string): { library: ESLintModule; settings: TextDocumentSettings } | undefined {
-			return configErrorReported.get(key);
+		/**
+		 * Returns the configuration files for which an error got reported keyed by their path.
+		 */
+		export function getConfigErrorsReported(): ReadonlyMap<string, ConfigErrorReport> {
+			return configErrorReported;
 		}
 
+		/**
+		 * Forgets the error of a configuration file and clears its diagnostics.
+		 */
 		export function removeConfigErrorReported(key: string): boolean {
+			void connection.sendDiagnostics({ uri: URI.file(key).toString(), diagnostics: [] });
 			return configErrorReported.delete(key);
 		}
 
-		function tryHandleConfigError(error: any, document: TextDocument, library: ESLintModule, settings: TextDocumentSettings): Status | undefined {
-			if (!error.message) {
-				return undefined;
+		function reportConfigError(error: any, document: TextDocument, library: ESLintModule, settings: TextDocumentSettings, location: ESLintError.ConfigLocation): void {
+			const message = getMessage(error, document);
+			if (configErrorReported.get(location.filePath)?.message !== message) {
+				connection.console.error(message);
+				configErrorReported.set(location.filePath, { library, settings, message });
+				void connection.sendDiagnostics({ uri: URI.file(location.filePath).toString(), diagnostics: [createConfigErrorDiagnostic(location, message)] });
 			}
+		}
 
-			function handleFileName(filename: string): Status {
-				if (!configErrorReported.has(filename)) {
-					connection.console.error(getMessage(error, document));
-					if (!documents.get(URI.file(filename).toString())) {
-						connection.window.showInformationMessage(getMessage(error, document));
+		function createConfigErrorDiagnostic(location: ESLintError.ConfigLocation, message: string): Diagnostic {
+			let lines: string[] = [];
+			try {
+				lines = fs.readFileSync(location.filePath, 'utf8').split(/\r?\n/);
+			} catch {
+				// The diagnostic is shown on the first line.
+			}
+			let range = Range.create(0, 0, 0, lines.length > 0 ? lines[0].length : 0);
+			if (location.line !== undefined && location.line <= lines.length) {
+				const line = location.line - 1;
+				const character = Math.min(Math.max((location.column ?? 1) - 1, 0), lines[line].length);
+				range = Range.create(line, character, line, lines[line].length);
+			} else if (location.ruleId !== undefined) {
+				// Point at the rule's entry in the configuration.
+				for (let line = 0; line < lines.length; line++) {
+					const matches = new RegExp(`(["'])${location.ruleId.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}\\1`).exec(lines[line]);
+					if (matches !== null) {
+						range = Range.create(line, matches.index, line, matches.index + matches[0].length);
+						break;
 					}
-					configErrorReported.set(filename, { library, settings });
 				}
-				return Status.warn;
 			}
-
-			let matches = /Cannot read config file:\s+(.*)\nError:\s+(.*)/.exec(error.message);
-			if (matches && matches.length === 3) {
-				return handleFileName(matches[1]);
-			}
-
-			matches = /(.*):\n\s*Configuration for rule \"(.*)\" is /.exec(error.message);
-			if (matches && matches.length === 3) {
-				return handleFileName(matches[1]);
-			}
-
-			matches = /Cannot find module '([^']*)'\nReferenced from:\s+(.*)/.exec(error.message);
-			if (matches && matches.length === 3) {
-				return handleFileName(matches[2]);
-			}
-
-			return undefined;
+			return { message, range, severity: DiagnosticSeverity.Error, source: 'eslint' };
 		}
 
 		const missingModuleReported: Map<string, ESLintModule> = new Map<string, ESLintModule>();
@@ -1529,53 +2626,40 @@ export namespace ESLint {
 			missingModuleReported.clear();
 		}
 
-		function tryHandleMissingModule(error: any, document: TextDocument, library: ESLintModule, settings: TextDocumentSettings): Status | undefined {
-			if (!error.message) {
-				return undefined;
-			}
-
-			function handleMissingModule(plugin: string, module: string, error: ESLintError): Status {
-				if (!missingModuleReported.has(plugin)) {
-					const fsPath = inferFilePath(document, settings.useRealpaths);
-					missingModuleReported.set(plugin, library);
-					if (error.messageTemplate === 'plugin-missing') {
-						connection.console.error([
-							'',
-							`${error.message.toString()}`,
-							`Happened while validating ${fsPath ? fsPath : document.uri}`,
-							`This can happen for a couple of reasons:`,
-							`1. The plugin name is spelled incorrectly in an ESLint configuration file (e.g. .eslintrc).`,
-							`2. If ESLint is installed globally, then make sure ${module} is installed globally as well.`,
-							`3. If ESLint is installed locally, then ${module} isn't installed correctly.`,
-							'',
-							`Consider running eslint --debug ${fsPath ? fsPath : document.uri} from a terminal to obtain a trace about the configuration files used.`
-						].join('\n'));
-					} else {
-						connection.console.error([
-							`${error.message.toString()}`,
-							`Happened while validating ${fsPath ? fsPath : document.uri}`
-						].join('\n'));
-					}
-				}
-				return Status.warn;
+		function reportMissingModule(error: ESLintError, document: TextDocument, library: ESLintModule, settings: TextDocumentSettings, module: string, configFile: string | undefined): void {
+			if (missingModuleReported.has(module)) {
+				return;
 			}
-
-			const matches = /Failed to load plugin (.*): Cannot find module (.*)/.exec(error.message);
-			if (matches && matches.length === 3) {
-				return handleMissingModule(matches[1], matches[2], error);
+			const fsPath = inferFilePath(document, settings.useRealpaths);
+			missingModuleReported.set(module, library);
+			if (error.messageTemplate === 'plugin-missing') {
+				connection.console.error([
+					'',
+					`${error.message.toString()}`,
+					`Happened while validating ${fsPath ? fsPath : document.uri}`,
+					`This can happen for a couple of reasons:`,
+					`1. The plugin name is spelled incorrectly in an ESLint configuration file (e.g. .eslintrc).`,
+					`2. If ESLint is installed globally, then make sure ${module} is installed globally as well.`,
+					`3. If ESLint is installed locally, then ${module} isn't installed correctly.`,
+					'',
+					`Consider running eslint --debug ${fsPath ? fsPath : document.uri} from a terminal to obtain a trace about the configuration files used.`
+				].join('\n'));
+			} else {
+				connection.console.error([
+					`${error.message.toString()}`,
+					`Happened while validating ${fsPath ? fsPath : document.uri}`
+				].join('\n'));
 			}
-
-			return undefined;
+			connection.sendRequest(MissingModuleRequest.type, { module, source: { uri: document.uri }, configFile }).then(undefined, () => { });
 		}
 
-		function showErrorMessage(error: any, document: TextDocument): Status {
+		function showErrorMessage(error: any, document: TextDocument): void {
 			if (Is.string(error.stack)) {
 				connection.console.error('An unexpected error occurred:');
 				connection.console.error(error.stack);
 			} else {
 				connection.console.error(`An unexpected error occurred: ${getMessage(error, document)}.`);
 			}
-			return Status.error;
 		}
 	}
 }
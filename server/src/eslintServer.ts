@@ -2,32 +2,46 @@
  * Copyright (c) Microsoft Corporation. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as path from 'path';
 import { EOL } from 'os';
 
 import {
 	createConnection, Diagnostic, Range, TextDocuments, TextDocumentSyncKind, TextEdit, Command, WorkspaceChange, VersionedTextDocumentIdentifier,
 	DidChangeConfigurationNotification,  CodeAction, CodeActionKind, Position, TextDocumentEdit, Message as LMessage, ResponseMessage as LResponseMessage,
-	uinteger, ServerCapabilities, NotebookDocuments, ProposedFeatures, ClientCapabilities, type FullDocumentDiagnosticReport, DocumentDiagnosticReportKind
+	uinteger, ServerCapabilities, NotebookDocuments, ProposedFeatures, ClientCapabilities, type FullDocumentDiagnosticReport, DocumentDiagnosticReportKind,
+	type WorkspaceDiagnosticReport, type WorkspaceDocumentDiagnosticReport, type WorkspaceDiagnosticReportPartialResult,
+	CancellationToken, type WorkDoneProgressReporter, type ResultProgressReporter, ResponseError, LSPErrorCodes, ChangeAnnotation,
+	type ChangeAnnotationIdentifier, DiagnosticSeverity, type Hover, type HoverParams, MarkupKind, type DiagnosticServerCancellationData
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
 import {
-	ExitCalled, OpenESLintDocRequest, Status, StatusNotification
+	ActiveTextDocumentNotification, EffectiveConfigRequest, ExitCalled, ExplainFileRequest, OpenESLintDocRequest, PackagesInstalledNotification, ProbeLanguageRequest, Status, StatusNotification
 } from './shared/customMessages';
 
-import { Validate, CodeActionsOnSaveMode } from './shared/settings';
+import { Validate, CodeActionsOnSaveMode, ConfigurationSettings, DirectoryItem, InitializationOptions } from './shared/settings';
 
 import {
-	CodeActions, ESLint, ESLintClassOptions, FixableProblem, Fixes, Problem, RuleMetaData, RuleSeverities,
-	SaveRuleConfigs, SuggestionsProblem, TextDocumentSettings,
+	CodeActions, DiagnosticData, ESLint, ESLintClassOptions, ESLintModule, FixableProblem, FixFilesOptions, Fixes, Problem, RuleConf, RuleMetaData, RuleSeverities,
+	SaveRuleConfigs, SeverityConf, SuggestionsProblem, TextDocumentSettings,
 } from './eslint';
 
-import { getFileSystemPath, getUri, isUNC } from './paths';
+import * as Is from './is';
+import { getFileSystemPath, getUri, isInDirectory, isUNC } from './paths';
 import { stringDiff } from './diff';
 import LanguageDefaults from './languageDefaults';
+import { WorkspaceFiles } from './workspaceFiles';
+import { WorkspacePackages } from './workspacePackages';
+import { Dependencies } from './dependencies';
+import { ValidationQueue } from './validationQueue';
+import { Suppressions } from './suppressions';
+
+// Diagnostic pulls are scheduled by the validation queue. See ValidationQueue for details.
+const validationQueue = new ValidationQueue((uri) => documents.get(uri)?.version);
 
 // The connection to use. Code action requests get removed from the queue if
 // canceled.
@@ -46,11 +60,17 @@ const connection: ProposedFeatures.Connection = createConnection(ProposedFeature
 			return undefined;
 		}
 	},
+	messageStrategy: validationQueue,
 	maxParallelism: 1
 });
 
 // Set when handling the initialize request.
 let clientCapabilities: ClientCapabilities;
+let initializationOptions: InitializationOptions | undefined;
+
+// Incremented whenever settings or ESLint configuration files change. Results
+// computed for an older generation are outdated.
+let configGeneration: number = 0;
 
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 // The notebooks manager is using the normal document manager for the cell documents.
@@ -72,6 +92,18 @@ function loadNodeModule<T>(moduleName: string): T | undefined {
 	return undefined;
 }
 
+/**
+ * Removes the modules loaded from the given directories from Node's module cache.
+ */
+function unloadNodeModules(directories: string[]): void {
+	const cache = (typeof __webpack_require__ === 'function' ? __non_webpack_require__ : require).cache;
+	for (const key of Object.keys(cache)) {
+		if (directories.some(directory => isInDirectory(key, directory))) {
+			delete cache[key];
+		}
+	}
+}
+
 // Some plugins call exit which will terminate the server.
 // To not loose the information we sent such a behavior
 // to the client.
@@ -150,7 +182,7 @@ function inferFilePath(documentOrUri: string | TextDocument | URI | undefined, u
 	return undefined;
 }
 
-ESLint.initialize(connection, documents, inferFilePath, loadNodeModule);
+ESLint.initialize(connection, inferFilePath, loadNodeModule);
 SaveRuleConfigs.inferFilePath = inferFilePath;
 
 documents.onDidClose(async (event) => {
@@ -159,11 +191,27 @@ documents.onDidClose(async (event) => {
 	ESLint.removeSettings(uri);
 	SaveRuleConfigs.remove(uri);
 	CodeActions.remove(uri);
+	DocumentReports.remove(uri);
+	Dependencies.remove(uri);
 	ESLint.unregisterAsFormatter(document);
 });
 
+documents.onDidSave((event) => {
+	// The client only pulls for the saved document. Type aware rules usually read
+	// imported files from disk so ask the client to pull the dependents as well.
+	if (DocumentReports.invalidateDependents(event.document.uri) > 0) {
+		connection.languages.diagnostics.refresh().catch(() => {
+			connection.console.error('Failed to refresh diagnostics');
+		});
+	}
+});
+
 function environmentChanged() {
+	configGeneration++;
+	DocumentReports.clear();
+	Dependencies.clear();
 	ESLint.clearSettings();
+	ESLint.clearClasses();
 	RuleSeverities.clear();
 	SaveRuleConfigs.clear();
 	ESLint.clearFormatters();
@@ -173,12 +221,13 @@ function environmentChanged() {
 }
 
 namespace CommandIds {
-	export const applySingleFix: string = 'eslint.applySingleFix';
-	export const applySuggestion: string = 'eslint.applySuggestion';
-	export const applySameFixes: string = 'eslint.applySameFixes';
 	export const applyAllFixes: string = 'eslint.applyAllFixes';
-	export const applyDisableLine: string = 'eslint.applyDisableLine';
-	export const applyDisableFile: string = 'eslint.applyDisableFile';
+	export const applyWorkspaceFixes: string = 'eslint.applyWorkspaceFixes';
+	export const removeUnusedDirectives: string = 'eslint.removeUnusedDisableDirectives';
+	export const disableRuleWithDescription: string = 'eslint.disableRuleWithDescription';
+	export const suppressRule: string = 'eslint.suppressRule';
+	export const applyPruneSuppressions: string = 'eslint.applyPruneSuppressions';
+	export const applySuppressionsBaseline: string = 'eslint.applySuppressionsBaseline';
 	export const openRuleDoc: string = 'eslint.openRuleDoc';
 }
 
@@ -186,6 +235,7 @@ connection.onInitialize((params, _cancel, progress) => {
 	progress.begin('Initializing ESLint Server');
 	const syncKind: TextDocumentSyncKind = TextDocumentSyncKind.Incremental;
 	clientCapabilities = params.capabilities;
+	initializationOptions = params.initializationOptions as InitializationOptions | undefined;
 	progress.done();
 	const capabilities: ServerCapabilities = {
 		textDocumentSync: {
@@ -203,25 +253,28 @@ connection.onInitialize((params, _cancel, progress) => {
 		},
 		executeCommandProvider: {
 			commands: [
-				CommandIds.applySingleFix,
-				CommandIds.applySuggestion,
-				CommandIds.applySameFixes,
 				CommandIds.applyAllFixes,
-				CommandIds.applyDisableLine,
-				CommandIds.applyDisableFile,
+				CommandIds.applyWorkspaceFixes,
+				CommandIds.removeUnusedDirectives,
+				CommandIds.disableRuleWithDescription,
+				CommandIds.suppressRule,
+				CommandIds.applyPruneSuppressions,
+				CommandIds.applySuppressionsBaseline,
 				CommandIds.openRuleDoc,
 			]
 		},
+		hoverProvider: true,
 		diagnosticProvider: {
 			identifier: 'eslint',
-			interFileDependencies: false,
-			workspaceDiagnostics: false
+			interFileDependencies: true,
+			workspaceDiagnostics: initializationOptions?.workspaceDiagnostics === true
 		}
 	};
 
 	if (clientCapabilities.textDocument?.codeAction?.codeActionLiteralSupport?.codeActionKind.valueSet !== undefined) {
 		capabilities.codeActionProvider = {
-			codeActionKinds: [CodeActionKind.QuickFix, `${CodeActionKind.SourceFixAll}.eslint`]
+			codeActionKinds: [CodeActionKind.QuickFix, ESLintSourceFixAll, ...ESLintSourceFixAllKinds.keys(), ESLintSourceRemoveUnusedDirectives],
+			resolveProvider: true
 		};
 	}
 
@@ -249,38 +302,180 @@ const emptyDiagnosticResult: FullDocumentDiagnosticReport = {
 	items: []
 };
 
-connection.languages.diagnostics.on(async (params) => {
+/**
+ * The last diagnostic report computed for every open document. Since the server
+ * declares inter file dependencies the client pulls diagnostics for all visible
+ * documents whenever a document changes. A report is reused as long as neither
+ * the document, the configuration nor one of the files it imports has changed.
+ * If the client already has the report it is answered with an unchanged report.
+ */
+namespace DocumentReports {
+
+	type Entry = {
+		version: number;
+		generation: number;
+		imports: Map<string, number>;
+		report: FullDocumentDiagnosticReport;
+	};
+
+	const uri2Entry: Map<string, Entry> = new Map();
+	const settings2Hash: WeakMap<TextDocumentSettings, string> = new WeakMap();
+
+	/**
+	 * Computes the result id of a report. The id changes whenever the document, its
+	 * settings or the ESLint configuration changes.
+	 */
+	export function computeResultId(version: number, settings: TextDocumentSettings, generation: number): string {
+		let hash = settings2Hash.get(settings);
+		if (hash === undefined) {
+			// The library is a module object. Its identity is covered by the settings.
+			const { library: _library, ...rest } = settings;
+			hash = crypto.createHash('sha256').update(JSON.stringify(rest)).digest('base64');
+			settings2Hash.set(settings, hash);
+		}
+		return `${version}:${hash}:${generation}`;
+	}
+
+	export function get(document: TextDocument): FullDocumentDiagnosticReport | undefined {
+		const entry = uri2Entry.get(document.uri);
+		if (entry === undefined || entry.version !== document.version || entry.generation !== configGeneration) {
+			return undefined;
+		}
+		for (const [filePath, mtime] of entry.imports) {
+			if (getModificationTime(filePath) !== mtime) {
+				return undefined;
+			}
+		}
+		return entry.report;
+	}
+
+	/**
+	 * Returns the diagnostics last reported for the current version of a document
+	 * without checking whether they are outdated.
+	 */
+	export function getDiagnostics(document: TextDocument): Diagnostic[] | undefined {
+		const entry = uri2Entry.get(document.uri);
+		return entry !== undefined && entry.version === document.version ? entry.report.items : undefined;
+	}
+
+	export function set(document: TextDocument, version: number, generation: number, report: FullDocumentDiagnosticReport): void {
+		const imports: Map<string, number> = new Map();
+		for (const filePath of Dependencies.getImports(document.uri)) {
+			imports.set(filePath, getModificationTime(filePath));
+		}
+		uri2Entry.set(document.uri, { version, generation, imports, report });
+	}
+
+	export function remove(uri: string): boolean {
+		return uri2Entry.delete(uri);
+	}
+
+	export function clear(): void {
+		uri2Entry.clear();
+	}
+
+	/**
+	 * Drops the reports of all open documents importing the given document.
+	 *
+	 * @returns the number of dependent documents.
+	 */
+	export function invalidateDependents(uri: string): number {
+		const dependents = Dependencies.getDependents(uri);
+		for (const dependent of dependents) {
+			uri2Entry.delete(dependent);
+		}
+		return dependents.length;
+	}
+
+	function getModificationTime(filePath: string): number {
+		try {
+			return fs.statSync(filePath).mtimeMs;
+		} catch {
+			return -1;
+		}
+	}
+}
+
+connection.onNotification(ActiveTextDocumentNotification.type, (params) => {
+	validationQueue.active = params.textDocument?.uri;
+});
+
+connection.onRequest(EffectiveConfigRequest.type, async (params) => {
+	const textDocument = documents.get(params.textDocument.uri);
+	if (textDocument === undefined) {
+		return null;
+	}
+	const settings = await ESLint.resolveSettings(textDocument);
+	if (settings.validate !== Validate.on || !TextDocumentSettings.hasLibrary(settings)) {
+		return null;
+	}
+	return (await ESLint.getEffectiveConfig(textDocument, settings)) ?? null;
+});
+
+connection.onRequest(ExplainFileRequest.type, (params) => {
+	// Documents ESLint doesn't validate aren't synced to the server.
+	const textDocument = documents.get(params.textDocument.uri) ?? TextDocument.create(params.textDocument.uri, params.languageId, 0, '');
+	return ESLint.explainFile(textDocument, params.validate);
+});
+
+connection.onRequest(ProbeLanguageRequest.type, (params) => {
+	return ESLint.probeLanguage(TextDocument.create(params.textDocument.uri, params.languageId, 0, ''));
+});
+
+connection.languages.diagnostics.on(async (params, token) => {
+	// The client cancels a pull when the document changed in the meantime. It
+	// pulls again for the new version.
+	if (token.isCancellationRequested) {
+		throw new ResponseError(LSPErrorCodes.RequestCancelled, 'Document changed');
+	}
+	// The queue supersedes pulls by newer pulls or document versions. The client
+	// pulls again if needed.
+	if (validationQueue.superseded) {
+		throw new ResponseError<DiagnosticServerCancellationData>(LSPErrorCodes.ServerCancelled, 'Document changed', { retriggerRequest: false });
+	}
 	const document = documents.get(params.textDocument.uri);
 	if (document === undefined) {
 		return emptyDiagnosticResult;
 	}
 
+	const cached = DocumentReports.get(document);
+	if (cached !== undefined) {
+		return cached.resultId !== undefined && cached.resultId === params.previousResultId
+			? { kind: DocumentDiagnosticReportKind.Unchanged, resultId: cached.resultId }
+			: cached;
+	}
+
+	const version = document.version;
+	const generation = configGeneration;
 	const settings = await ESLint.resolveSettings(document);
 	if (settings.validate !== Validate.on || !TextDocumentSettings.hasLibrary(settings)) {
 		return emptyDiagnosticResult;
 	}
+	if (token.isCancellationRequested) {
+		throw new ResponseError(LSPErrorCodes.RequestCancelled, 'Document changed');
+	}
+	const filePath = ESLint.getFilePath(document, settings);
+	if (filePath !== undefined) {
+		Dependencies.update(document.uri, filePath, Dependencies.getGroup(filePath, settings.workingDirectory?.directory), document.getText());
+	}
 	try {
 		const start = Date.now();
 		const diagnostics = await ESLint.validate(document, settings);
 		const timeTaken = Date.now() - start;
 		void connection.sendNotification(StatusNotification.type, { uri: document.uri, state: Status.ok, validationTime: timeTaken });
-		return {
+		const report: FullDocumentDiagnosticReport = {
 			kind: DocumentDiagnosticReportKind.Full,
+			resultId: DocumentReports.computeResultId(version, settings, generation),
 			items: diagnostics
 		};
+		DocumentReports.set(document, version, generation, report);
+		return report;
 	} catch (err) {
 		// if an exception has occurred while validating clear all errors to ensure
 		// we are not showing any stale once
 		if (!settings.silent) {
-			let status: Status | undefined = undefined;
-			for (const handler of ESLint.ErrorHandlers.single) {
-				status = handler(err, document, settings.library, settings);
-				if (status) {
-					break;
-				}
-			}
-			status = status || Status.error;
-			void connection.sendNotification(StatusNotification.type, { uri: document.uri, state: status });
+			const { status, reason, detail } = ESLint.ErrorHandlers.handle(err, document, settings.library, settings);
+			void connection.sendNotification(StatusNotification.type, { uri: document.uri, state: status, reason, detail });
 		} else {
 			connection.console.info(ESLint.ErrorHandlers.getMessage(err, document));
 			void connection.sendNotification(StatusNotification.type, { uri: document.uri, state: Status.ok });
@@ -289,45 +484,371 @@ connection.languages.diagnostics.on(async (params) => {
 	}
 });
 
+/**
+ * Returns the extensions of the files on disk ESLint validates or probes.
+ */
+function getFileExtensions(configuration: ConfigurationSettings, withProbed: boolean = false): Set<string> {
+	const result: Set<string> = new Set();
+	for (const languageId of withProbed ? configuration.workspaceDiagnostics.languageIds.concat(configuration.workspaceDiagnostics.probeLanguageIds) : configuration.workspaceDiagnostics.languageIds) {
+		const extension = LanguageDefaults.getExtension(languageId, configuration.languages);
+		if (extension !== undefined) {
+			result.add(extension);
+		}
+	}
+	return result;
+}
+
+/**
+ * Maps the file extensions of the languages listed in `eslint.probe` to their language
+ * id. Extensions of validated languages are left out.
+ */
+function getProbedLanguages(configuration: ConfigurationSettings): Map<string, string> {
+	const result: Map<string, string> = new Map();
+	const validated = getFileExtensions(configuration);
+	for (const languageId of configuration.workspaceDiagnostics.probeLanguageIds) {
+		const extension = LanguageDefaults.getExtension(languageId, configuration.languages);
+		if (extension !== undefined && !validated.has(extension) && !result.has(extension)) {
+			result.set(extension, languageId);
+		}
+	}
+	return result;
+}
+
+/**
+ * Computes the working directory of a file on disk like the one of an open document.
+ * The configuration is requested for the file itself since `eslint.workingDirectories`
+ * is resolved per file.
+ */
+async function getFileWorkingDirectory(configuration: ConfigurationSettings, folderPath: string, filePath: string, getSettings: (workingDirectory: DirectoryItem) => Promise<TextDocumentSettings>): Promise<DirectoryItem> {
+	const fileConfiguration: ConfigurationSettings | null = await connection.workspace.getConfiguration({ scopeUri: URI.file(filePath).toString(), section: '' });
+	return ESLint.getWorkingDirectory(fileConfiguration ?? configuration, folderPath, filePath, getSettings);
+}
+
+/**
+ * Lints the files on disk of all workspace folders that have workspace diagnostics
+ * enabled. The server handles one request at a time so a workspace pull only lints
+ * for a limited amount of time. The client pulls again shortly after a pull has
+ * finished and files that are already up to date are skipped using their result id.
+ * The files are enumerated on every pull so that created and deleted files are
+ * picked up.
+ */
+namespace WorkspaceDiagnostics {
+
+	// The time in milliseconds a single workspace pull is allowed to lint.
+	const timeBudget: number = 2000;
+	// The number of files passed to ESLint's `lintFiles` at once.
+	const batchSize: number = 20;
+
+	type Pending = {
+		filePath: string;
+		uri: string;
+		resultId: string;
+		// The language of a file whose language is probed.
+		languageId: string | undefined;
+	};
+
+	// Caches that are valid for one config generation.
+	let generation: number = -1;
+	const directory2WorkingDirectory: Map<string, DirectoryItem> = new Map();
+	const workingDirectory2Settings: Map<string, Promise<TextDocumentSettings>> = new Map();
+
+	// Directories with a changed configuration file. Files below them get new result
+	// ids and are linted again.
+	let epoch: number = 0;
+	const directory2Epoch: Map<string, number> = new Map();
+
+	function validateCaches(): void {
+		if (generation === configGeneration) {
+			return;
+		}
+		generation = configGeneration;
+		directory2WorkingDirectory.clear();
+		workingDirectory2Settings.clear();
+		directory2Epoch.clear();
+	}
+
+	/**
+	 * Lints the files below the given directories again on the next pull.
+	 */
+	export function invalidate(directories: string[]): void {
+		epoch++;
+		for (const directory of directories) {
+			directory2Epoch.set(directory, epoch);
+		}
+		for (const directory of Array.from(directory2WorkingDirectory.keys())) {
+			if (directories.some(item => isInDirectory(directory, item))) {
+				directory2WorkingDirectory.delete(directory);
+			}
+		}
+		for (const workingDirectory of Array.from(workingDirectory2Settings.keys())) {
+			if (directories.some(item => isInDirectory(workingDirectory, item) || isInDirectory(item, workingDirectory))) {
+				workingDirectory2Settings.delete(workingDirectory);
+			}
+		}
+	}
+
+	function getResultId(filePath: string): string | undefined {
+		let fileEpoch: number = 0;
+		for (const [directory, value] of directory2Epoch) {
+			if (value > fileEpoch && isInDirectory(filePath, directory)) {
+				fileEpoch = value;
+			}
+		}
+		try {
+			return `${generation}:${fileEpoch}:${fs.statSync(filePath).mtimeMs}`;
+		} catch {
+			return undefined;
+		}
+	}
+
+	async function getWorkingDirectory(configuration: ConfigurationSettings, folderPath: string, filePath: string): Promise<DirectoryItem> {
+		const directory = path.dirname(filePath);
+		let result = directory2WorkingDirectory.get(directory);
+		if (result === undefined) {
+			result = await getFileWorkingDirectory(configuration, folderPath, filePath, workingDirectory => getSettings(configuration, folderPath, workingDirectory));
+			directory2WorkingDirectory.set(directory, result);
+		}
+		return result;
+	}
+
+	function getSettings(configuration: ConfigurationSettings, folderPath: string, workingDirectory: DirectoryItem): Promise<TextDocumentSettings> {
+		let result = workingDirectory2Settings.get(workingDirectory.directory);
+		if (result === undefined) {
+			result = ESLint.resolveWorkingDirectorySettings(configuration, folderPath, workingDirectory);
+			workingDirectory2Settings.set(workingDirectory.directory, result);
+		}
+		return result;
+	}
+
+	export async function pull(previousResultIds: Map<string, string>, token: CancellationToken, workDone: WorkDoneProgressReporter, resultProgress: ResultProgressReporter<WorkspaceDiagnosticReportPartialResult> | undefined): Promise<WorkspaceDiagnosticReport> {
+		const result: WorkspaceDiagnosticReport = { items: [] };
+		const folders = await connection.workspace.getWorkspaceFolders();
+		if (folders === null || folders.length === 0) {
+			return result;
+		}
+		validateCaches();
+
+		// Collect the files whose diagnostics are not known to the client, grouped by
+		// working directory.
+		const work: { configuration: ConfigurationSettings; folderPath: string; workingDirectory: DirectoryItem; files: Pending[] }[] = [];
+		const existing: Set<string> = new Set();
+		let total: number = 0;
+		for (const folder of folders) {
+			const configuration: ConfigurationSettings | null = await connection.workspace.getConfiguration({ scopeUri: folder.uri, section: '' });
+			if (configuration === null || configuration === undefined || configuration.workspaceDiagnostics?.enable !== true) {
+				continue;
+			}
+			const folderUri = URI.parse(folder.uri);
+			if (folderUri.scheme !== 'file') {
+				continue;
+			}
+			const folderPath = getFileSystemPath(folderUri, configuration.useRealpaths);
+			const probedLanguages = getProbedLanguages(configuration);
+			const groups: Map<string, { workingDirectory: DirectoryItem; files: Pending[] }> = new Map();
+			for (const filePath of await WorkspaceFiles.enumerate(folderPath, getFileExtensions(configuration, true), token)) {
+				const uri = URI.file(filePath).toString();
+				// Open documents are validated using document pulls.
+				if (documents.get(uri) !== undefined) {
+					continue;
+				}
+				const resultId = getResultId(filePath);
+				if (resultId === undefined) {
+					continue;
+				}
+				existing.add(uri);
+				if (previousResultIds.get(uri) === resultId) {
+					continue;
+				}
+				const workingDirectory = await getWorkingDirectory(configuration, folderPath, filePath);
+				let group = groups.get(workingDirectory.directory);
+				if (group === undefined) {
+					group = { workingDirectory, files: [] };
+					groups.set(workingDirectory.directory, group);
+				}
+				group.files.push({ filePath, uri, resultId, languageId: probedLanguages.get(path.extname(filePath).substring(1)) });
+				total++;
+			}
+			for (const { workingDirectory, files } of groups.values()) {
+				work.push({ configuration, folderPath, workingDirectory, files });
+			}
+		}
+		if (token.isCancellationRequested) {
+			return result;
+		}
+
+		// The client keeps the diagnostics of files that got deleted or are no longer
+		// linted until it receives an empty report for them.
+		const removed: WorkspaceDocumentDiagnosticReport[] = [];
+		for (const uri of previousResultIds.keys()) {
+			if (!existing.has(uri) && documents.get(uri) === undefined) {
+				removed.push({ kind: DocumentDiagnosticReportKind.Full, uri, version: null, items: [] });
+			}
+		}
+		if (removed.length > 0) {
+			if (resultProgress !== undefined) {
+				resultProgress.report({ items: removed });
+			} else {
+				result.items.push(...removed);
+			}
+		}
+		if (total === 0) {
+			return result;
+		}
+
+		const start = Date.now();
+		let done: number = 0;
+		workDone.begin('Linting workspace', 0, `0/${total} files`, true);
+		try {
+			outer: for (const { configuration, folderPath, workingDirectory, files } of work) {
+				const settings = await getSettings(configuration, folderPath, workingDirectory);
+				for (let i = 0; i < files.length; i += batchSize) {
+					if (token.isCancellationRequested || Date.now() - start > timeBudget) {
+						break outer;
+					}
+					const batch = files.slice(i, i + batchSize);
+					const probed: Map<string, string> = new Map();
+					for (const item of batch) {
+						if (item.languageId !== undefined) {
+							probed.set(item.filePath, item.languageId);
+						}
+					}
+					let diagnostics: Map<string, Diagnostic[]> | undefined;
+					if (settings.validate === Validate.on && TextDocumentSettings.hasLibrary(settings)) {
+						try {
+							diagnostics = await ESLint.validateFiles(batch.map(item => item.filePath), settings, probed);
+						} catch (error: any) {
+							connection.console.error(`Linting files in ${workingDirectory.directory} failed: ${error?.message ?? error}`);
+						}
+					}
+					const items: WorkspaceDocumentDiagnosticReport[] = batch.map((item) => {
+						return {
+							kind: DocumentDiagnosticReportKind.Full,
+							uri: item.uri,
+							version: null,
+							resultId: item.resultId,
+							items: diagnostics?.get(item.filePath) ?? []
+						};
+					});
+					if (resultProgress !== undefined) {
+						resultProgress.report({ items });
+					} else {
+						result.items.push(...items);
+					}
+					done += batch.length;
+					workDone.report(Math.round(done / total * 100), `${done}/${total} files`);
+				}
+			}
+		} finally {
+			workDone.done();
+		}
+		connection.tracer.log(`Linting ${done} workspace files took: ${Date.now() - start} ms.`);
+		return result;
+	}
+}
+
+connection.languages.diagnostics.onWorkspace(async (params, token, workDone, resultProgress) => {
+	const previousResultIds: Map<string, string> = new Map(params.previousResultIds.map(item => [item.uri, item.value]));
+	return WorkspaceDiagnostics.pull(previousResultIds, token, workDone, resultProgress);
+});
+
 connection.onDidChangeWatchedFiles(async (params) => {
-	// A .eslintrc has change. No smartness here.
-	// Simply revalidate all file.
+	// A configuration file, package.json or .eslintignore only affects the files
+	// below its directory. So only documents located there or using a working
+	// directory there are validated again.
+	const directories: string[] = [];
+	for (const change of params.changes) {
+		const uri = URI.parse(change.uri);
+		if (uri.scheme !== 'file') {
+			await revalidateAll();
+			return;
+		}
+		const directory = path.dirname(getFileSystemPath(uri, false));
+		if (!directories.includes(directory)) {
+			directories.push(directory);
+		}
+	}
+	await revalidateIn(directories);
+});
+
+connection.onNotification(PackagesInstalledNotification.type, async () => {
+	// ESLint itself might have been installed or updated. Node caches the modules it
+	// loaded, so they are removed from its cache to load the installed versions.
+	unloadNodeModules(ESLint.clearLibraries());
+	await revalidateAll();
+});
+
+async function revalidateAll(): Promise<void> {
+	configGeneration++;
+	DocumentReports.clear();
+	Dependencies.clear();
 	RuleMetaData.clear();
+	WorkspacePackages.clear();
 	ESLint.ErrorHandlers.clearNoConfigReported();
 	ESLint.ErrorHandlers.clearMissingModuleReported();
 	ESLint.clearSettings(); // config files can change plugins and parser.
+	ESLint.clearClasses();
 	RuleSeverities.clear();
 	SaveRuleConfigs.clear();
+	await checkConfigErrors(undefined);
+	connection.languages.diagnostics.refresh().catch(() => {
+		connection.console.error('Failed to refresh diagnostics');
+	});
+}
 
-	await Promise.all(params.changes.map(async (change) => {
-		const fsPath = inferFilePath(change.uri, false);
-		if (fsPath === undefined || fsPath.length === 0 || isUNC(fsPath)) {
-			return;
-		}
-		const dirname = path.dirname(fsPath);
-		if (dirname) {
-			const data = ESLint.ErrorHandlers.getConfigErrorReported(fsPath);
-			if (data !== undefined) {
-				const eslintClass = await ESLint.newClass(data.library, {}, data.settings);
-				try {
-					await eslintClass.lintText('', { filePath: path.join(dirname, '___test___.js') });
-					ESLint.ErrorHandlers.removeConfigErrorReported(fsPath);
-				} catch (error) {
-				}
-			}
-		}
-	}));
+/**
+ * Drops the cached state of the documents affected by a change in the given
+ * directories. The client gets the cached reports of all other documents when
+ * it pulls again.
+ */
+async function revalidateIn(directories: string[]): Promise<void> {
+	for (const uri of await ESLint.removeSettingsIn(directories)) {
+		DocumentReports.remove(uri);
+		Dependencies.remove(uri);
+		SaveRuleConfigs.remove(uri);
+		ESLint.ErrorHandlers.removeNoConfigReported(uri);
+	}
+	ESLint.ErrorHandlers.clearMissingModuleReported();
+	ESLint.clearClasses(directories);
+	RuleMetaData.clearIn(directories);
+	WorkspacePackages.clear(directories);
+	WorkspaceDiagnostics.invalidate(directories);
+	connection.tracer.log(`Configuration changed in ${directories.join(', ')}.`);
+	await checkConfigErrors(directories);
 	connection.languages.diagnostics.refresh().catch(() => {
 		connection.console.error('Failed to refresh diagnostics');
 	});
-});
+}
+
+/**
+ * Clears the diagnostics of configuration files that load again. A change to
+ * package.json can fix a configuration as well, for example by adding a plugin.
+ *
+ * @param directories only check configuration files located in these directories.
+ */
+async function checkConfigErrors(directories: string[] | undefined): Promise<void> {
+	// ESLint classes change the process' working directory. So configurations are
+	// checked one after the other.
+	for (const [fsPath, data] of Array.from(ESLint.ErrorHandlers.getConfigErrorsReported())) {
+		if (isUNC(fsPath) || (directories !== undefined && !directories.some(directory => isInDirectory(fsPath, directory)))) {
+			continue;
+		}
+		try {
+			await ESLint.checkConfiguration(path.join(path.dirname(fsPath), '___test___.js'), Object.assign({}, data.settings, { library: data.library }));
+			ESLint.ErrorHandlers.removeConfigErrorReported(fsPath);
+		} catch {
+			// The configuration still fails to load.
+		}
+	}
+}
 
 type RuleCodeActions = {
 	fixes: CodeAction[];
 	suggestions: CodeAction[];
 	disable?: CodeAction;
+	disableRange?: CodeAction;
 	fixAll?: CodeAction;
 	disableFile?: CodeAction;
+	suppress?: CodeAction;
 	showDocumentation?: CodeAction;
 };
 
@@ -363,12 +884,18 @@ class CodeActionResult {
 			if (actions.disable) {
 				result.push(actions.disable);
 			}
+			if (actions.disableRange) {
+				result.push(actions.disableRange);
+			}
 			if (actions.fixAll) {
 				result.push(actions.fixAll);
 			}
 			if (actions.disableFile) {
 				result.push(actions.disableFile);
 			}
+			if (actions.suppress) {
+				result.push(actions.suppress);
+			}
 			if (actions.showDocumentation) {
 				result.push(actions.showDocumentation);
 			}
@@ -388,188 +915,354 @@ class CodeActionResult {
 	}
 }
 
-class Changes {
-
-	private readonly values: Map<string, WorkspaceChange>;
-	private uri: string | undefined;
-	private version: number | undefined;
-
-	constructor() {
-		this.values = new Map();
-		this.uri = undefined;
-		this.version = undefined;
-	}
-
-	public clear(textDocument?: TextDocument): void {
-		if (textDocument === undefined) {
-			this.uri = undefined;
-			this.version = undefined;
-		} else {
-			this.uri = textDocument.uri;
-			this.version = textDocument.version;
-		}
-		this.values.clear();
-	}
-
-	public isUsable(uri: string, version: number): boolean {
-		return this.uri === uri && this.version === version;
-	}
-
-	public set(key: string, change: WorkspaceChange): void {
-		this.values.set(key, change);
-	}
-
-	public get(key: string): WorkspaceChange | undefined {
-		return this.values.get(key);
-	}
-}
-
 interface CommandParams extends VersionedTextDocumentIdentifier {
 	version: number;
 	ruleId?: string;
-	sequence?: number;
 }
 
 namespace CommandParams {
-	export function create(textDocument: TextDocument, ruleId?: string, sequence?: number): CommandParams {
-		return { uri: textDocument.uri, version: textDocument.version, ruleId, sequence };
+	export function create(textDocument: TextDocument, ruleId?: string): CommandParams {
+		return { uri: textDocument.uri, version: textDocument.version, ruleId };
 	}
 	export function hasRuleId(value: CommandParams): value is CommandParams & { ruleId: string } {
 		return value.ruleId !== undefined;
 	}
 }
 
-const changes = new Changes();
-const ESLintSourceFixAll: string = `${CodeActionKind.SourceFixAll}.eslint`;
+enum CodeActionType {
+	fix = 'fix',
+	suggestion = 'suggestion',
+	sameFixes = 'sameFixes',
+	disableLine = 'disableLine',
+	disableRange = 'disableRange',
+	disableFile = 'disableFile'
+}
 
-connection.onCodeAction(async (params) => {
-	const result: CodeActionResult = new CodeActionResult();
-	const uri = params.textDocument.uri;
-	const textDocument = documents.get(uri);
-	if (textDocument === undefined) {
-		changes.clear(textDocument);
-		return result.all();
-	}
+/**
+ * The data of a code action. The edit of the code action is computed from it when
+ * the code action gets resolved.
+ */
+type CodeActionData = {
+	type: CodeActionType;
+	textDocument: VersionedTextDocumentIdentifier;
+	problem: DiagnosticData;
+	suggestion?: number;
+	/**
+	 * The zero based lines to wrap in a disable / enable block.
+	 */
+	lines?: { start: number; end: number };
+};
 
-	function createCodeAction(title: string, kind: string, commandId: string, arg: CommandParams, diagnostic?: Diagnostic): CodeAction {
-		const command = Command.create(title, commandId, arg);
-		const action = CodeAction.create(
-			title,
-			command,
-			kind
-		);
-		if (diagnostic !== undefined) {
-			action.diagnostics = [diagnostic];
-		}
-		return action;
+namespace CodeActionData {
+	export function is(value: any): value is CodeActionData {
+		const candidate = value as CodeActionData;
+		return candidate !== undefined && candidate !== null && Is.string(candidate.type) && VersionedTextDocumentIdentifier.is(candidate.textDocument) && DiagnosticData.is(candidate.problem);
 	}
+}
 
-	function getDisableRuleEditInsertionIndex(line: string, commentTags: string | [string, string]): number {
-		let charIndex = line.indexOf('--');
+const ESLintSourceFixAll: string = `${CodeActionKind.SourceFixAll}.eslint`;
 
-		if (charIndex < 0) {
-			if (typeof commentTags === 'string') {
-				return line.length;
-			} else { // commentTags is an array containing the block comment closing and opening tags
-				charIndex = line.indexOf(commentTags[1]);
-				while (charIndex > 0 && line[charIndex - 1] === ' ') {
-					charIndex--;
-				}
-			}
-		} else {
-			while (charIndex > 1 && line[charIndex - 1] === ' ') {
+/**
+ * Maps the fix all code action kinds of ESLint's fix types (e.g. `source.fixAll.eslint.layout`)
+ * to the fix type.
+ */
+const ESLintSourceFixAllKinds: Map<string, string> = new Map(Array.from(ESLint.validFixTypes).map(fixType => [`${ESLintSourceFixAll}.${fixType}`, fixType]));
+
+const ESLintSourceRemoveUnusedDirectives: string = `${CodeActionKind.Source}.removeUnusedDisableDirectives.eslint`;
+
+function getDisableRuleEditInsertionIndex(line: string, commentTags: string | [string, string]): number {
+	let charIndex = line.indexOf('--');
+
+	if (charIndex < 0) {
+		if (typeof commentTags === 'string') {
+			return line.length;
+		} else { // commentTags is an array containing the block comment closing and opening tags
+			charIndex = line.indexOf(commentTags[1]);
+			while (charIndex > 0 && line[charIndex - 1] === ' ') {
 				charIndex--;
 			}
 		}
-
-		return charIndex;
-	}
-
-	/**
-	 * Prefix characters with special meaning in comment markers with a backslash
-	 * See also: https://github.com/microsoft/vscode-eslint/issues/1610
-	 */
-	function escapeStringRegexp(value: string) {
-		return value.replace(/[|{}\\()[\]^$+*?.]/g, '\\$&');
+	} else {
+		while (charIndex > 1 && line[charIndex - 1] === ' ') {
+			charIndex--;
+		}
 	}
 
-	function createDisableLineTextEdit(textDocument: TextDocument, editInfo: Problem, indentationText: string): TextEdit {
-		const lineComment = LanguageDefaults.getLineComment(textDocument.languageId);
-		const blockComment = LanguageDefaults.getBlockComment(textDocument.languageId);
-
-		// If the concerned line is not the first line of the file
-		if (editInfo.line - 1 > 0) {
-			// Check previous line if there is a eslint-disable-next-line comment already present.
-			const prevLine = textDocument.getText(Range.create(Position.create(editInfo.line - 2, 0), Position.create(editInfo.line - 2, uinteger.MAX_VALUE)));
+	return charIndex;
+}
 
-			// For consistency, we ignore the settings here and use the comment style from that
-			// specific line.
-			const matchedLineDisable = new RegExp(`${escapeStringRegexp(lineComment)} eslint-disable-next-line`).test(prevLine);
-			if (matchedLineDisable) {
-				const insertionIndex = getDisableRuleEditInsertionIndex(prevLine, lineComment);
-				return TextEdit.insert(Position.create(editInfo.line - 2, insertionIndex), `, ${editInfo.ruleId}`);
-			}
+/**
+ * Prefix characters with special meaning in comment markers with a backslash
+ * See also: https://github.com/microsoft/vscode-eslint/issues/1610
+ */
+function escapeStringRegexp(value: string) {
+	return value.replace(/[|{}\\()[\]^$+*?.]/g, '\\$&');
+}
 
-			const matchedBlockDisable = new RegExp(`${escapeStringRegexp(blockComment[0])} eslint-disable-next-line`).test(prevLine);
-			if (matchedBlockDisable) {
-				const insertionIndex = getDisableRuleEditInsertionIndex(prevLine, blockComment);
-				return TextEdit.insert(Position.create(editInfo.line - 2, insertionIndex), `, ${editInfo.ruleId}`);
-			}
+/**
+ * Returns the `--` suffix of a disable comment describing why the rule is disabled.
+ * The description is kept on one line and can't end a block comment.
+ */
+function getDescriptionSuffix(description: string | undefined): string {
+	if (description === undefined) {
+		return '';
+	}
+	const text = description.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+	return text.length > 0 ? ` -- ${text}` : '';
+}
+
+function createDisableLineTextEdit(textDocument: TextDocument, settings: TextDocumentSettings, editInfo: DiagnosticData, indentationText: string, description: string | undefined): TextEdit | undefined {
+	const lineComment = LanguageDefaults.getLineComment(textDocument.languageId, settings.languages);
+	const blockComment = LanguageDefaults.getBlockComment(textDocument.languageId, settings.languages);
+
+	// If the concerned line is not the first line of the file
+	if (editInfo.line - 1 > 0) {
+		// Check previous line if there is a eslint-disable-next-line comment already present.
+		const prevLine = textDocument.getText(Range.create(Position.create(editInfo.line - 2, 0), Position.create(editInfo.line - 2, uinteger.MAX_VALUE)));
+
+		// For consistency, we ignore the settings here and use the comment style from that
+		// specific line.
+		const matchedLineDisable = lineComment !== undefined && new RegExp(`${escapeStringRegexp(lineComment)} eslint-disable-next-line`).test(prevLine);
+		if (matchedLineDisable) {
+			const insertionIndex = getDisableRuleEditInsertionIndex(prevLine, lineComment);
+			return TextEdit.insert(Position.create(editInfo.line - 2, insertionIndex), `, ${editInfo.ruleId}`);
 		}
 
-		// We're creating a new disabling comment. Use the comment style given in settings.
-		const commentStyle = settings.codeAction.disableRuleComment.commentStyle;
-		let disableRuleContent: string;
-		if (commentStyle === 'block') {
-			disableRuleContent = `${indentationText}${blockComment[0]} eslint-disable-next-line ${editInfo.ruleId} ${blockComment[1]}${EOL}`;
-		} else { // commentStyle === 'line'
-			disableRuleContent = `${indentationText}${lineComment} eslint-disable-next-line ${editInfo.ruleId}${EOL}`;
+		const matchedBlockDisable = blockComment !== undefined && new RegExp(`${escapeStringRegexp(blockComment[0])} eslint-disable-next-line`).test(prevLine);
+		if (matchedBlockDisable) {
+			const insertionIndex = getDisableRuleEditInsertionIndex(prevLine, blockComment);
+			return TextEdit.insert(Position.create(editInfo.line - 2, insertionIndex), `, ${editInfo.ruleId}`);
 		}
+	}
 
-		return TextEdit.insert(Position.create(editInfo.line - 1, 0), disableRuleContent);
+	// We're creating a new disabling comment. Use the comment style given in settings.
+	const commentStyle = getCommentStyle(settings, lineComment, blockComment);
+	const descriptionSuffix = getDescriptionSuffix(description);
+	let disableRuleContent: string;
+	if (commentStyle === 'block' && blockComment !== undefined) {
+		disableRuleContent = `${indentationText}${blockComment[0]} eslint-disable-next-line ${editInfo.ruleId}${descriptionSuffix} ${blockComment[1]}${EOL}`;
+	} else if (commentStyle === 'line' && lineComment !== undefined) {
+		disableRuleContent = `${indentationText}${lineComment} eslint-disable-next-line ${editInfo.ruleId}${descriptionSuffix}${EOL}`;
+	} else {
+		return undefined;
 	}
 
-	function createDisableSameLineTextEdit(textDocument: TextDocument, editInfo: Problem): TextEdit {
-		const lineComment = LanguageDefaults.getLineComment(textDocument.languageId);
-		const blockComment = LanguageDefaults.getBlockComment(textDocument.languageId);
-		const currentLine = textDocument.getText(Range.create(Position.create(editInfo.line - 1, 0), Position.create(editInfo.line - 1, uinteger.MAX_VALUE)));
-		let disableRuleContent: string;
-		let insertionIndex: number;
+	return TextEdit.insert(Position.create(editInfo.line - 1, 0), disableRuleContent);
+}
 
-		// Check if there's already a disabling comment. If so, we ignore the settings here
-		// and use the comment style from that specific line.
-		const matchedLineDisable = new RegExp(`${lineComment} eslint-disable-line`).test(currentLine);
-		const matchedBlockDisable = new RegExp(`${blockComment[0]} eslint-disable-line`).test(currentLine);
-		if (matchedLineDisable) {
-			disableRuleContent = `, ${editInfo.ruleId}`;
-			insertionIndex = getDisableRuleEditInsertionIndex(currentLine, lineComment);
-		} else if (matchedBlockDisable) {
-			disableRuleContent = `, ${editInfo.ruleId}`;
-			insertionIndex = getDisableRuleEditInsertionIndex(currentLine, blockComment);
+function createDisableSameLineTextEdit(textDocument: TextDocument, settings: TextDocumentSettings, editInfo: DiagnosticData, description: string | undefined): TextEdit | undefined {
+	const lineComment = LanguageDefaults.getLineComment(textDocument.languageId, settings.languages);
+	const blockComment = LanguageDefaults.getBlockComment(textDocument.languageId, settings.languages);
+	const currentLine = textDocument.getText(Range.create(Position.create(editInfo.line - 1, 0), Position.create(editInfo.line - 1, uinteger.MAX_VALUE)));
+	let disableRuleContent: string;
+	let insertionIndex: number;
+
+	// Check if there's already a disabling comment. If so, we ignore the settings here
+	// and use the comment style from that specific line.
+	const matchedLineDisable = lineComment !== undefined && new RegExp(`${escapeStringRegexp(lineComment)} eslint-disable-line`).test(currentLine);
+	const matchedBlockDisable = blockComment !== undefined && new RegExp(`${escapeStringRegexp(blockComment[0])} eslint-disable-line`).test(currentLine);
+	if (matchedLineDisable) {
+		disableRuleContent = `, ${editInfo.ruleId}`;
+		insertionIndex = getDisableRuleEditInsertionIndex(currentLine, lineComment);
+	} else if (matchedBlockDisable) {
+		disableRuleContent = `, ${editInfo.ruleId}`;
+		insertionIndex = getDisableRuleEditInsertionIndex(currentLine, blockComment);
+	} else {
+		// We're creating a new disabling comment.
+		const commentStyle = getCommentStyle(settings, lineComment, blockComment);
+		const descriptionSuffix = getDescriptionSuffix(description);
+		if (commentStyle === 'line' && lineComment !== undefined) {
+			disableRuleContent = ` ${lineComment} eslint-disable-line ${editInfo.ruleId}${descriptionSuffix}`;
+		} else if (commentStyle === 'block' && blockComment !== undefined) {
+			disableRuleContent = ` ${blockComment[0]} eslint-disable-line ${editInfo.ruleId}${descriptionSuffix} ${blockComment[1]}`;
 		} else {
-			// We're creating a new disabling comment.
-			const commentStyle = settings.codeAction.disableRuleComment.commentStyle;
-			disableRuleContent = commentStyle === 'line' ? ` ${lineComment} eslint-disable-line ${editInfo.ruleId}` : ` ${blockComment[0]} eslint-disable-line ${editInfo.ruleId} ${blockComment[1]}`;
-			insertionIndex = uinteger.MAX_VALUE;
+			return undefined;
 		}
+		insertionIndex = uinteger.MAX_VALUE;
+	}
 
-		return TextEdit.insert(Position.create(editInfo.line - 1, insertionIndex), disableRuleContent);
+	return TextEdit.insert(Position.create(editInfo.line - 1, insertionIndex), disableRuleContent);
+}
+
+/**
+ * Returns the configured comment style unless the language only has the other one.
+ */
+function getCommentStyle(settings: TextDocumentSettings, lineComment: string | undefined, blockComment: [string, string] | undefined): 'line' | 'block' {
+	if (lineComment === undefined) {
+		return 'block';
+	} else if (blockComment === undefined) {
+		return 'line';
 	}
+	return settings.codeAction.disableRuleComment.commentStyle;
+}
+
+function createDisableRangeTextEdits(textDocument: TextDocument, block: [string, string], editInfo: DiagnosticData, lines: { start: number; end: number }, indentationText: string, description: string | undefined): TextEdit[] {
+	const descriptionSuffix = getDescriptionSuffix(description);
+	const disable = TextEdit.insert(Position.create(lines.start, 0), `${indentationText}${block[0]} eslint-disable ${editInfo.ruleId}${descriptionSuffix} ${block[1]}${EOL}`);
+	const enableComment = `${indentationText}${block[0]} eslint-enable ${editInfo.ruleId}${descriptionSuffix} ${block[1]}`;
+	// If the range ends on the last line there is no next line to insert the comment in front of.
+	const enable = lines.end + 1 < textDocument.lineCount
+		? TextEdit.insert(Position.create(lines.end + 1, 0), `${enableComment}${EOL}`)
+		: TextEdit.insert(Position.create(lines.end, uinteger.MAX_VALUE), `${EOL}${enableComment}`);
+	return [disable, enable];
+}
 
-	function createDisableFileTextEdit(textDocument: TextDocument, editInfo: Problem): TextEdit {
-		// If first line contains a shebang, insert on the next line instead.
-		const shebang = textDocument.getText(Range.create(Position.create(0, 0), Position.create(0, 2)));
-		const line = shebang === '#!' ? 1 : 0;
-		const block = LanguageDefaults.getBlockComment(textDocument.languageId);
-		return TextEdit.insert(Position.create(line, 0), `${block[0]} eslint-disable ${editInfo.ruleId} ${block[1]}${EOL}`);
+function getIndentationText(textDocument: TextDocument, line: number): string {
+	const lineText = textDocument.getText(Range.create(Position.create(line, 0), Position.create(line, uinteger.MAX_VALUE)));
+	const matches = /^([ \t]*)/.exec(lineText);
+	return matches !== null && matches.length > 0 ? matches[1] : '';
+}
+
+/**
+ * Returns the zero based lines covered by a selection or `undefined` if the selection
+ * doesn't span multiple lines. A selection ending at the start of a line doesn't
+ * cover that line.
+ */
+function getSelectedLines(range: Range): { start: number; end: number } | undefined {
+	const end = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+	return end > range.start.line ? { start: range.start.line, end } : undefined;
+}
+
+function createDisableFileTextEdit(textDocument: TextDocument, block: [string, string], editInfo: DiagnosticData, description: string | undefined): TextEdit {
+	// If first line contains a shebang, insert on the next line instead.
+	const shebang = textDocument.getText(Range.create(Position.create(0, 0), Position.create(0, 2)));
+	const line = shebang === '#!' ? 1 : 0;
+	return TextEdit.insert(Position.create(line, 0), `${block[0]} eslint-disable ${editInfo.ruleId}${getDescriptionSuffix(description)} ${block[1]}${EOL}`);
+}
+
+function getLastEdit(array: FixableProblem[]): FixableProblem | undefined {
+	const length = array.length;
+	if (length === 0) {
+		return undefined;
 	}
+	return array[length - 1];
+}
 
-	function getLastEdit(array: FixableProblem[]): FixableProblem | undefined {
-		const length = array.length;
-		if (length === 0) {
-			return undefined;
+/**
+ * Returns the fixes of all problems of the given rule that don't overlap.
+ */
+function getSameFixes(problems: Problem[], ruleId: string): FixableProblem[] {
+	const result: FixableProblem[] = [];
+	for (const editInfo of new Fixes(problems).getAllSorted()) {
+		if (editInfo.ruleId === ruleId && !Fixes.overlaps(getLastEdit(result), editInfo)) {
+			result.push(editInfo);
 		}
-		return array[length - 1];
+	}
+	return result;
+}
+
+/**
+ * Computes the edit of a code action created by `onCodeAction`. Nothing is computed
+ * if the document has changed since the code action got created.
+ */
+async function resolveCodeAction(codeAction: CodeAction): Promise<CodeAction> {
+	const data = codeAction.data;
+	if (!CodeActionData.is(data) || codeAction.edit !== undefined) {
+		return codeAction;
+	}
+	const textDocument = documents.get(data.textDocument.uri);
+	if (textDocument === undefined || textDocument.version !== data.textDocument.version) {
+		return codeAction;
+	}
+	const edits = await computeCodeActionEdits(textDocument, data, undefined);
+	if (edits.length > 0) {
+		codeAction.edit = { documentChanges: [ TextDocumentEdit.create(data.textDocument, edits) ] };
+	}
+	return codeAction;
+}
+
+/**
+ * Computes the edits of a code action.
+ *
+ * @param description the reason to add to inserted disable comments.
+ */
+async function computeCodeActionEdits(textDocument: TextDocument, data: CodeActionData, description: string | undefined): Promise<TextEdit[]> {
+	const problem = data.problem;
+	const edits: TextEdit[] = [];
+	switch (data.type) {
+		case CodeActionType.fix:
+			if (problem.fix !== undefined) {
+				edits.push(FixableProblem.createTextEdit(textDocument, { edit: problem.fix }));
+			}
+			break;
+		case CodeActionType.suggestion: {
+			const suggestion = data.suggestion !== undefined ? problem.suggestions?.[data.suggestion] : undefined;
+			if (suggestion !== undefined) {
+				edits.push(SuggestionsProblem.createTextEdit(textDocument, suggestion));
+			}
+			break;
+		}
+		case CodeActionType.sameFixes: {
+			const problems = CodeActions.get(textDocument.uri);
+			if (problems !== undefined) {
+				edits.push(...getSameFixes(problems, problem.ruleId).map(fix => FixableProblem.createTextEdit(textDocument, fix)));
+			}
+			break;
+		}
+		case CodeActionType.disableLine: {
+			const settings = await ESLint.resolveSettings(textDocument);
+			const edit = settings.codeAction.disableRuleComment.location === 'sameLine'
+				? createDisableSameLineTextEdit(textDocument, settings, problem, description)
+				: createDisableLineTextEdit(textDocument, settings, problem, getIndentationText(textDocument, problem.line - 1), description);
+			if (edit !== undefined) {
+				edits.push(edit);
+			}
+			break;
+		}
+		case CodeActionType.disableRange: {
+			const block = LanguageDefaults.getBlockComment(textDocument.languageId, (await ESLint.resolveSettings(textDocument)).languages);
+			if (data.lines !== undefined && block !== undefined) {
+				edits.push(...createDisableRangeTextEdits(textDocument, block, problem, data.lines, getIndentationText(textDocument, data.lines.start), description));
+			}
+			break;
+		}
+		case CodeActionType.disableFile: {
+			const block = LanguageDefaults.getBlockComment(textDocument.languageId, (await ESLint.resolveSettings(textDocument)).languages);
+			if (block !== undefined) {
+				edits.push(createDisableFileTextEdit(textDocument, block, problem, description));
+			}
+			break;
+		}
+	}
+	return edits;
+}
+
+connection.onCodeAction(async (params) => {
+	const result: CodeActionResult = new CodeActionResult();
+	const uri = params.textDocument.uri;
+	const textDocument = documents.get(uri);
+	if (textDocument === undefined) {
+		return result.all();
+	}
+
+	function createCodeAction(title: string, kind: string, commandId: string, arg: CommandParams, diagnostic?: Diagnostic): CodeAction {
+		const command = Command.create(title, commandId, arg);
+		const action = CodeAction.create(
+			title,
+			command,
+			kind
+		);
+		if (diagnostic !== undefined) {
+			action.diagnostics = [diagnostic];
+		}
+		return action;
+	}
+
+	function createResolvableCodeAction(title: string, kind: string, data: CodeActionData, diagnostic?: Diagnostic): CodeAction {
+		const action = CodeAction.create(title, kind);
+		action.data = data;
+		if (diagnostic !== undefined) {
+			action.diagnostics = [diagnostic];
+		}
+		return action;
+	}
+
+	// If disable comments require a description the user is asked for it when the
+	// code action gets executed.
+	function createDisableCodeAction(title: string, kind: string, data: CodeActionData): CodeAction {
+		return settings.codeAction.disableRuleComment.requireDescription === true
+			? CodeAction.create(title, Command.create(title, CommandIds.disableRuleWithDescription, data), kind)
+			: createResolvableCodeAction(title, kind, data);
 	}
 
 	const settings = await ESLint.resolveSettings(textDocument);
@@ -579,24 +1272,48 @@ connection.onCodeAction(async (params) => {
 		return result.all();
 	}
 
+	const only: string | undefined = params.context.only !== undefined && params.context.only.length > 0 ? params.context.only[0] : undefined;
+	const isSource = only === CodeActionKind.Source;
+
+	// Unused disable directives are removed even if the configuration doesn't report
+	// them. So there might be something to do for documents without problems.
+	if (only === ESLintSourceRemoveUnusedDirectives) {
+		const textDocumentIdentifier: VersionedTextDocumentIdentifier = { uri: textDocument.uri, version: textDocument.version };
+		const edits = await computeUnusedDirectiveRemovals(textDocumentIdentifier);
+		if (edits !== undefined) {
+			result.fixAll.push(CodeAction.create(
+				`Remove all unused eslint-disable directives`,
+				{ documentChanges: [ TextDocumentEdit.create(textDocumentIdentifier, edits )]},
+				ESLintSourceRemoveUnusedDirectives
+			));
+		}
+		return result.all();
+	} else if (isSource) {
+		result.fixAll.push(createCodeAction(
+			`Remove all unused eslint-disable directives`,
+			ESLintSourceRemoveUnusedDirectives,
+			CommandIds.removeUnusedDirectives,
+			CommandParams.create(textDocument)
+		));
+	}
+
 	const problems = CodeActions.get(uri);
 	// We validate on type and have no problems ==> nothing to fix.
 	if (problems === undefined && settings.run === 'onType') {
 		return result.all();
 	}
 
-	const only: string | undefined = params.context.only !== undefined && params.context.only.length > 0 ? params.context.only[0] : undefined;
-	const isSource = only === CodeActionKind.Source;
-	const isSourceFixAll = (only === ESLintSourceFixAll || only === CodeActionKind.SourceFixAll);
+	const fixType = only !== undefined ? ESLintSourceFixAllKinds.get(only) : undefined;
+	const isSourceFixAll = (only === ESLintSourceFixAll || only === CodeActionKind.SourceFixAll || fixType !== undefined);
 	if (isSourceFixAll || isSource) {
 		if (isSourceFixAll) {
 			const textDocumentIdentifier: VersionedTextDocumentIdentifier = { uri: textDocument.uri, version: textDocument.version };
-			const edits = await computeAllFixes(textDocumentIdentifier, AllFixesMode.onSave);
+			const edits = await computeAllFixes(textDocumentIdentifier, AllFixesMode.onSave, fixType !== undefined ? new Set([fixType]) : undefined);
 			if (edits !== undefined) {
 				result.fixAll.push(CodeAction.create(
-					`Fix all fixable ESLint issues`,
+					fixType !== undefined ? `Fix all fixable ESLint ${fixType} issues` : `Fix all fixable ESLint issues`,
 					{ documentChanges: [ TextDocumentEdit.create(textDocumentIdentifier, edits )]},
-					ESLintSourceFixAll
+					fixType !== undefined ? only! : ESLintSourceFixAll
 				));
 			}
 		} else if (isSource) {
@@ -619,24 +1336,26 @@ connection.onCodeAction(async (params) => {
 		return result.all();
 	}
 
-	let documentVersion: number = -1;
-	const allFixableRuleIds: string[] = [];
+	const documentVersion: number = fixes.getDocumentVersion();
+	const textDocumentIdentifier: VersionedTextDocumentIdentifier = { uri, version: documentVersion };
+	const allFixableRuleIds: Map<string, DiagnosticData> = new Map();
 	const kind: CodeActionKind = only ?? CodeActionKind.QuickFix;
+	const selectedLines = getSelectedLines(params.range);
+	// Disabling a rule for a range or the whole file needs a block comment.
+	const hasBlockComment = LanguageDefaults.getBlockComment(textDocument.languageId, settings.languages) !== undefined;
 
 	for (const editInfo of fixes.getScoped(params.context.diagnostics)) {
-		documentVersion = editInfo.documentVersion;
 		const ruleId = editInfo.ruleId;
-		allFixableRuleIds.push(ruleId);
+		const problem = editInfo.diagnostic.data as DiagnosticData;
+		if (!allFixableRuleIds.has(ruleId)) {
+			allFixableRuleIds.set(ruleId, problem);
+		}
 
 		if (Problem.isFixable(editInfo)) {
-			const workspaceChange = new WorkspaceChange();
-			workspaceChange.getTextEditChange({ uri, version: documentVersion }).add(FixableProblem.createTextEdit(textDocument, editInfo));
-			changes.set(`${CommandIds.applySingleFix}:${ruleId}`, workspaceChange);
-			const action = createCodeAction(
+			const action = createResolvableCodeAction(
 				editInfo.label,
 				kind,
-				CommandIds.applySingleFix,
-				CommandParams.create(textDocument, ruleId),
+				{ type: CodeActionType.fix, textDocument: textDocumentIdentifier, problem },
 				editInfo.diagnostic
 			);
 			action.isPreferred = true;
@@ -644,53 +1363,56 @@ connection.onCodeAction(async (params) => {
 		}
 		if (Problem.hasSuggestions(editInfo)) {
 			editInfo.suggestions.forEach((suggestion, suggestionSequence) => {
-				const workspaceChange = new WorkspaceChange();
-				workspaceChange.getTextEditChange({ uri, version: documentVersion }).add(SuggestionsProblem.createTextEdit(textDocument, suggestion));
-				changes.set(`${CommandIds.applySuggestion}:${ruleId}:${suggestionSequence}`, workspaceChange);
-				const action = createCodeAction(
+				const action = createResolvableCodeAction(
 					`${suggestion.desc} (${editInfo.ruleId})`,
 					CodeActionKind.QuickFix,
-					CommandIds.applySuggestion,
-					CommandParams.create(textDocument, ruleId, suggestionSequence),
+					{ type: CodeActionType.suggestion, textDocument: textDocumentIdentifier, problem, suggestion: suggestionSequence },
 					editInfo.diagnostic
 				);
 				result.get(ruleId).suggestions.push(action);
 			});
 		}
 
-		if (settings.codeAction.disableRuleComment.enable && ruleId !== RuleMetaData.unusedDisableDirectiveId) {
-			let workspaceChange = new WorkspaceChange();
-			if (settings.codeAction.disableRuleComment.location === 'sameLine') {
-				workspaceChange.getTextEditChange({ uri, version: documentVersion }).add(createDisableSameLineTextEdit(textDocument, editInfo));
-			} else {
-				const lineText = textDocument.getText(Range.create(Position.create(editInfo.line - 1, 0), Position.create(editInfo.line - 1, uinteger.MAX_VALUE)));
-				const matches = /^([ \t]*)/.exec(lineText);
-				const indentationText = matches !== null && matches.length > 0 ? matches[1] : '';
-				workspaceChange.getTextEditChange({ uri, version: documentVersion }).add(createDisableLineTextEdit(textDocument, editInfo, indentationText));
-			}
-			changes.set(`${CommandIds.applyDisableLine}:${ruleId}`, workspaceChange);
-			result.get(ruleId).disable = createCodeAction(
+		if (settings.codeAction.disableRuleComment.enable && ruleId !== RuleMetaData.unusedDisableDirectiveId && LanguageDefaults.hasComments(textDocument.languageId, settings.languages)) {
+			result.get(ruleId).disable = createDisableCodeAction(
 				`Disable ${ruleId} for this line`,
 				kind,
-				CommandIds.applyDisableLine,
-				CommandParams.create(textDocument, ruleId)
+				{ type: CodeActionType.disableLine, textDocument: textDocumentIdentifier, problem }
 			);
 
-			if (result.get(ruleId).disableFile === undefined) {
-				workspaceChange = new WorkspaceChange();
-				workspaceChange.getTextEditChange({ uri, version: documentVersion }).add(createDisableFileTextEdit(textDocument, editInfo));
-				changes.set(`${CommandIds.applyDisableFile}:${ruleId}`, workspaceChange);
-				result.get(ruleId).disableFile = createCodeAction(
+			// Offer to disable the rule for the selected lines if several of its problems start there.
+			if (selectedLines !== undefined && result.get(ruleId).disableRange === undefined && hasBlockComment) {
+				const selected = problems.filter(candidate => candidate.ruleId === ruleId && candidate.line - 1 >= selectedLines.start && candidate.line - 1 <= selectedLines.end);
+				if (selected.length > 1) {
+					result.get(ruleId).disableRange = createDisableCodeAction(
+						`Disable ${ruleId} for the selected lines`,
+						kind,
+						{ type: CodeActionType.disableRange, textDocument: textDocumentIdentifier, problem, lines: selectedLines }
+					);
+				}
+			}
+
+			if (result.get(ruleId).disableFile === undefined && hasBlockComment) {
+				result.get(ruleId).disableFile = createDisableCodeAction(
 					`Disable ${ruleId} for the entire file`,
 					kind,
-					CommandIds.applyDisableFile,
-					CommandParams.create(textDocument, ruleId)
+					{ type: CodeActionType.disableFile, textDocument: textDocumentIdentifier, problem }
 				);
 			}
 		}
 
+		// Bulk suppressions only apply to errors.
+		if (settings.bulkSuppression?.enable === true && ruleId !== RuleMetaData.unusedDisableDirectiveId && editInfo.diagnostic.severity === DiagnosticSeverity.Error && result.get(ruleId).suppress === undefined) {
+			result.get(ruleId).suppress = createCodeAction(
+				`Suppress ${ruleId} in this file (bulk suppression)`,
+				kind,
+				CommandIds.suppressRule,
+				CommandParams.create(textDocument, ruleId)
+			);
+		}
+
 		if (settings.codeAction.showDocumentation.enable && result.get(ruleId).showDocumentation === undefined) {
-			if (RuleMetaData.hasRuleId(ruleId)) {
+			if (RuleMetaData.getUrl(ruleId, settings) !== undefined) {
 				result.get(ruleId).showDocumentation = createCodeAction(
 					`Show documentation for ${ruleId}`,
 					kind,
@@ -702,33 +1424,15 @@ connection.onCodeAction(async (params) => {
 	}
 
 	if (result.length > 0) {
-		const sameProblems: Map<string, FixableProblem[]> = new Map<string, FixableProblem[]>(allFixableRuleIds.map<[string, FixableProblem[]]>(s => [s, []]));
-
-		for (const editInfo of fixes.getAllSorted()) {
-			if (documentVersion === -1) {
-				documentVersion = editInfo.documentVersion;
-			}
-			if (sameProblems.has(editInfo.ruleId)) {
-				const same = sameProblems.get(editInfo.ruleId)!;
-				if (!Fixes.overlaps(getLastEdit(same), editInfo)) {
-					same.push(editInfo);
-				}
-			}
-		}
-		sameProblems.forEach((same, ruleId) => {
-			if (same.length > 1) {
-				const sameFixes: WorkspaceChange = new WorkspaceChange();
-				const sameTextChange = sameFixes.getTextEditChange({ uri, version: documentVersion });
-				same.map(fix => FixableProblem.createTextEdit(textDocument, fix)).forEach(edit => sameTextChange.add(edit));
-				changes.set(CommandIds.applySameFixes, sameFixes);
-				result.get(ruleId).fixAll = createCodeAction(
+		for (const [ruleId, problem] of allFixableRuleIds) {
+			if (getSameFixes(problems, ruleId).length > 1) {
+				result.get(ruleId).fixAll = createResolvableCodeAction(
 					`Fix all ${ruleId} problems`,
 					kind,
-					CommandIds.applySameFixes,
-					CommandParams.create(textDocument)
+					{ type: CodeActionType.sameFixes, textDocument: textDocumentIdentifier, problem }
 				);
 			}
-		});
+		}
 		result.fixAll.push(createCodeAction(
 			`Fix all auto-fixable problems`,
 			kind,
@@ -736,7 +1440,17 @@ connection.onCodeAction(async (params) => {
 			CommandParams.create(textDocument)
 		));
 	}
-	return result.all();
+
+	const actions = result.all();
+	// Clients not able to resolve the edit of a code action get it right away.
+	if (clientCapabilities.textDocument?.codeAction?.resolveSupport?.properties.includes('edit') !== true) {
+		await Promise.all(actions.map(resolveCodeAction));
+	}
+	return actions;
+});
+
+connection.onCodeActionResolve((codeAction) => {
+	return resolveCodeAction(codeAction);
 });
 
 enum AllFixesMode {
@@ -745,7 +1459,12 @@ enum AllFixesMode {
 	command = 'command'
 }
 
-async function computeAllFixes(identifier: VersionedTextDocumentIdentifier, mode: AllFixesMode): Promise<TextEdit[] | undefined> {
+/**
+ * Computes the edits fixing all fixable problems of a document.
+ *
+ * @param fixTypes if set only fixes of these ESLint fix types are computed.
+ */
+async function computeAllFixes(identifier: VersionedTextDocumentIdentifier, mode: AllFixesMode, fixTypes?: ReadonlySet<string>): Promise<TextEdit[] | undefined> {
 	const uri = identifier.uri;
 	const textDocument = documents.get(uri)!;
 	if (textDocument === undefined || identifier.version !== textDocument.version) {
@@ -757,14 +1476,24 @@ async function computeAllFixes(identifier: VersionedTextDocumentIdentifier, mode
 	if (settings.validate !== Validate.on || !TextDocumentSettings.hasLibrary(settings) || (mode === AllFixesMode.format && !settings.format)) {
 		return [];
 	}
+	if (fixTypes !== undefined && Array.isArray(settings.options?.fixTypes) && settings.options.fixTypes.length > 0) {
+		// The fix types configured in the ESLint options restrict the requested ones.
+		const configured = new Set(settings.options.fixTypes);
+		fixTypes = new Set(Array.from(fixTypes).filter(fixType => configured.has(fixType)));
+		if (fixTypes.size === 0) {
+			return [];
+		}
+	}
 	const filePath = inferFilePath(textDocument, settings.useRealpaths);
-	const problems = CodeActions.get(uri);
+	const problems = fixTypes !== undefined
+		? CodeActions.get(uri)?.filter(problem => ESLint.hasFixType(problem.ruleId, fixTypes, settings))
+		: CodeActions.get(uri);
 	const originalContent = textDocument.getText();
-	let start = Date.now();
+	const start = Date.now();
 	// Only use known fixes when running in onSave mode. See https://github.com/microsoft/vscode-eslint/issues/871
 	// for details
 	if (mode === AllFixesMode.onSave && settings.codeActionOnSave.mode === CodeActionsOnSaveMode.problems) {
-		const result = problems !== undefined && problems.size > 0
+		const result = problems !== undefined && problems.length > 0
 			? new Fixes(problems).getApplicable().map(fix => FixableProblem.createTextEdit(textDocument, fix))
 			: [];
 		connection.tracer.log(`Computing all fixes took: ${Date.now() - start} ms.`);
@@ -786,54 +1515,473 @@ async function computeAllFixes(identifier: VersionedTextDocumentIdentifier, mode
 				eslintOptions.overrideConfig = overrideConfig;
 			}
 		}
+		if (fixTypes !== undefined) {
+			eslintOptions.fixTypes = Array.from(fixTypes);
+		}
 		return ESLint.withClass(async (eslintClass) => {
 			// Don't use any precomputed fixes since neighbour fixes can produce incorrect results.
 			// See https://github.com/microsoft/vscode-eslint/issues/1745
-			const result: TextEdit[] = [];
 			const reportResults = await eslintClass.lintText(originalContent, { filePath });
 			connection.tracer.log(`Computing all fixes took: ${Date.now() - start} ms.`);
 			if (Array.isArray(reportResults) && reportResults.length === 1 && reportResults[0].output !== undefined) {
-				const fixedContent = reportResults[0].output;
-				start = Date.now();
-				const diffs = stringDiff(originalContent, fixedContent, false);
-				connection.tracer.log(`Computing minimal edits took: ${Date.now() - start} ms.`);
-				for (const diff of diffs) {
-					result.push({
-						range: {
-							start: textDocument.positionAt(diff.originalStart),
-							end: textDocument.positionAt(diff.originalStart + diff.originalLength)
-						},
-						newText: fixedContent.substr(diff.modifiedStart, diff.modifiedLength)
-					});
-				}
+				return computeMinimalEdits(textDocument, reportResults[0].output);
 			}
-			return result;
+			return [];
 		}, settings, eslintOptions);
 	}
 }
 
-connection.onExecuteCommand(async (params) => {
+/**
+ * Computes the minimal edits turning the content of a document into the content
+ * fixed by ESLint.
+ */
+function computeMinimalEdits(textDocument: TextDocument, fixedContent: string): TextEdit[] {
+	const result: TextEdit[] = [];
+	const start = Date.now();
+	const diffs = stringDiff(textDocument.getText(), fixedContent, false);
+	connection.tracer.log(`Computing minimal edits took: ${Date.now() - start} ms.`);
+	for (const diff of diffs) {
+		result.push({
+			range: {
+				start: textDocument.positionAt(diff.originalStart),
+				end: textDocument.positionAt(diff.originalStart + diff.originalLength)
+			},
+			newText: fixedContent.substr(diff.modifiedStart, diff.modifiedLength)
+		});
+	}
+	return result;
+}
+
+/**
+ * Computes the edits removing the unused disable directives of a document. The
+ * directives are reported regardless of the configuration.
+ */
+async function computeUnusedDirectiveRemovals(identifier: VersionedTextDocumentIdentifier): Promise<TextEdit[] | undefined> {
+	const textDocument = documents.get(identifier.uri);
+	if (textDocument === undefined || identifier.version !== textDocument.version) {
+		return undefined;
+	}
+	const settings = await ESLint.resolveSettings(textDocument);
+	if (settings.validate !== Validate.on || !TextDocumentSettings.hasLibrary(settings)) {
+		return [];
+	}
+	const start = Date.now();
+	const fixedContent = await ESLint.removeUnusedDirectives(textDocument.getText(), inferFilePath(textDocument, settings.useRealpaths), settings);
+	connection.tracer.log(`Removing unused disable directives took: ${Date.now() - start} ms.`);
+	return fixedContent !== undefined ? computeMinimalEdits(textDocument, fixedContent) : [];
+}
+
+type WorkingDirectoryFiles = {
+	configuration: ConfigurationSettings;
+	folderPath: string;
+	workingDirectory: DirectoryItem;
+	files: string[];
+};
+
+/**
+ * Collects the files on disk having a validated language grouped by their working
+ * directory. Only the workspace folder with the given uri is looked at if provided.
+ */
+async function getWorkingDirectoryFiles(folderUri: string | undefined, token: CancellationToken): Promise<WorkingDirectoryFiles[]> {
+	const result: WorkingDirectoryFiles[] = [];
+	const folders = await connection.workspace.getWorkspaceFolders();
+	if (folders === null) {
+		return result;
+	}
+	for (const folder of folders) {
+		if (folderUri !== undefined && folderUri !== folder.uri) {
+			continue;
+		}
+		const configuration: ConfigurationSettings | null = await connection.workspace.getConfiguration({ scopeUri: folder.uri, section: '' });
+		const uri = URI.parse(folder.uri);
+		if (configuration === null || configuration === undefined || uri.scheme !== 'file') {
+			continue;
+		}
+		const folderPath = getFileSystemPath(uri, configuration.useRealpaths);
+		const directory2WorkingDirectory: Map<string, DirectoryItem> = new Map();
+		const workingDirectory2Settings: Map<string, Promise<TextDocumentSettings>> = new Map();
+		const getSettings = (workingDirectory: DirectoryItem): Promise<TextDocumentSettings> => {
+			let settings = workingDirectory2Settings.get(workingDirectory.directory);
+			if (settings === undefined) {
+				settings = ESLint.resolveWorkingDirectorySettings(configuration, folderPath, workingDirectory);
+				workingDirectory2Settings.set(workingDirectory.directory, settings);
+			}
+			return settings;
+		};
+		const groups: Map<string, WorkingDirectoryFiles> = new Map();
+		for (const filePath of await WorkspaceFiles.enumerate(folderPath, getFileExtensions(configuration, true), token)) {
+			const directory = path.dirname(filePath);
+			let workingDirectory = directory2WorkingDirectory.get(directory);
+			if (workingDirectory === undefined) {
+				workingDirectory = await getFileWorkingDirectory(configuration, folderPath, filePath, getSettings);
+				directory2WorkingDirectory.set(directory, workingDirectory);
+			}
+			let group = groups.get(workingDirectory.directory);
+			if (group === undefined) {
+				group = { configuration, folderPath, workingDirectory, files: [] };
+				groups.set(workingDirectory.directory, group);
+			}
+			group.files.push(filePath);
+		}
+		result.push(...groups.values());
+	}
+	return result;
+}
+
+/**
+ * Collects the working directories having a bulk suppressions file. The files are
+ * searched on disk, so suppressions of files of any language are found. If the
+ * suppressions file has an absolute location the working directories of the files
+ * having a validated language are used.
+ */
+async function getSuppressionsWorkingDirectories(folderUri: string | undefined, token: CancellationToken): Promise<WorkingDirectoryFiles[]> {
+	const result: WorkingDirectoryFiles[] = [];
+	const folders = await connection.workspace.getWorkspaceFolders();
+	if (folders === null) {
+		return result;
+	}
+	for (const folder of folders) {
+		if (folderUri !== undefined && folderUri !== folder.uri) {
+			continue;
+		}
+		const configuration: ConfigurationSettings | null = await connection.workspace.getConfiguration({ scopeUri: folder.uri, section: '' });
+		const uri = URI.parse(folder.uri);
+		if (configuration === null || configuration === undefined || uri.scheme !== 'file') {
+			continue;
+		}
+		const location = path.normalize(configuration.bulkSuppression?.location ?? Suppressions.defaultLocation);
+		if (path.isAbsolute(location)) {
+			for (const item of await getWorkingDirectoryFiles(folder.uri, token)) {
+				result.push(Object.assign(item, { files: [] }));
+			}
+			continue;
+		}
+		const folderPath = getFileSystemPath(uri, configuration.useRealpaths);
+		for (const filePath of await WorkspaceFiles.enumerate(folderPath, new Set([path.extname(location).substring(1)]), token)) {
+			if (filePath.endsWith(`${path.sep}${location}`)) {
+				result.push({ configuration, folderPath, workingDirectory: { directory: filePath.substring(0, filePath.length - location.length - 1) }, files: [] });
+			}
+		}
+	}
+	return result;
+}
+
+type WorkspaceFixesParams = {
+	/**
+	 * The uri of the workspace folder to fix. All folders are fixed if omitted.
+	 */
+	folder?: string;
+
+	/**
+	 * The rules to fix. The problems of all rules are fixed if omitted or empty.
+	 */
+	ruleIds?: string[];
+
+	/**
+	 * Only remove unused disable directives instead of fixing problems.
+	 */
+	unusedDirectives?: boolean;
+
+	/**
+	 * Whether the user confirms the edit in a preview before it gets applied.
+	 */
+	preview?: boolean;
+};
+
+namespace WorkspaceFixesParams {
+	export function is(value: any): value is WorkspaceFixesParams {
+		const candidate = value as WorkspaceFixesParams;
+		return candidate !== undefined && candidate !== null && (candidate.folder === undefined || Is.string(candidate.folder))
+			&& (candidate.ruleIds === undefined || Is.stringArray(candidate.ruleIds))
+			&& (candidate.unusedDirectives === undefined || Is.boolean(candidate.unusedDirectives))
+			&& (candidate.preview === undefined || Is.boolean(candidate.preview));
+	}
+}
+
+/**
+ * Fixes the files on disk of workspace folders. ESLint runs with `fix: true` over all
+ * files having a validated language and the fixed content of every file is turned into
+ * a text edit. Open documents are fixed as well if they don't have unsaved changes.
+ */
+namespace WorkspaceFixes {
+
+	const previewAnnotationId: ChangeAnnotationIdentifier = 'eslint.workspaceFixes';
+
+	export async function compute(params: WorkspaceFixesParams, token: CancellationToken, workDone: WorkDoneProgressReporter): Promise<WorkspaceChange | undefined> {
+		const fixOptions: FixFilesOptions = {
+			ruleIds: params.ruleIds !== undefined && params.ruleIds.length > 0 ? new Set(params.ruleIds) : undefined,
+			unusedDirectives: params.unusedDirectives
+		};
+		const title = params.unusedDirectives === true ? 'Removing unused eslint-disable directives' : 'Fixing ESLint problems';
+
+		const work = await getWorkingDirectoryFiles(params.folder, token);
+		const total = work.reduce((sum, item) => sum + item.files.length, 0);
+		if (total === 0 || token.isCancellationRequested) {
+			return undefined;
+		}
+
+		const start = Date.now();
+		const result = new WorkspaceChange(params.preview === true ? { documentChanges: [], changeAnnotations: { [previewAnnotationId]: ChangeAnnotation.create(title, true) } } : undefined);
+		const annotationId = params.preview === true ? previewAnnotationId : undefined;
+		let processed: number = 0;
+		let fixed: number = 0;
+		workDone.begin(title, 0, `0/${total} files`, true);
+		try {
+			for (const { configuration, folderPath, workingDirectory, files } of work) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				const settings = await ESLint.resolveWorkingDirectorySettings(configuration, folderPath, workingDirectory);
+				let fixedFiles: Map<string, string> | undefined;
+				if (settings.validate === Validate.on && TextDocumentSettings.hasLibrary(settings)) {
+					try {
+						fixedFiles = await ESLint.fixFiles(files, settings, fixOptions, token, (done) => {
+							workDone.report(Math.round((processed + done) / total * 100), `${processed + done}/${total} files`);
+						});
+					} catch (error: any) {
+						connection.console.error(`Fixing files in ${workingDirectory.directory} failed: ${error?.message ?? error}`);
+					}
+				}
+				processed += files.length;
+				workDone.report(Math.round(processed / total * 100), `${processed}/${total} files`);
+				if (fixedFiles === undefined || token.isCancellationRequested) {
+					continue;
+				}
+				for (const [filePath, fixedContent] of fixedFiles) {
+					if (addEdits(result, filePath, fixedContent, annotationId)) {
+						fixed++;
+					}
+				}
+			}
+		} finally {
+			workDone.done();
+		}
+		connection.tracer.log(`Fixing ${processed} workspace files took: ${Date.now() - start} ms.`);
+		if (token.isCancellationRequested) {
+			return undefined;
+		}
+		connection.console.info(`ESLint fixed problems in ${fixed} of ${processed} files.`);
+		return fixed > 0 ? result : undefined;
+	}
+
+	function addEdits(workspaceChange: WorkspaceChange, filePath: string, fixedContent: string, annotationId: ChangeAnnotationIdentifier | undefined): boolean {
+		let originalContent: string;
+		try {
+			originalContent = fs.readFileSync(filePath, 'utf8');
+		} catch {
+			return false;
+		}
+		const uri = URI.file(filePath).toString();
+		const openDocument = documents.get(uri);
+		// ESLint fixed the content on disk. Don't touch documents with unsaved changes.
+		if (openDocument !== undefined && openDocument.getText() !== originalContent) {
+			connection.console.info(`Skipping ${filePath} since it has unsaved changes.`);
+			return false;
+		}
+		const edits = computeMinimalEdits(openDocument ?? TextDocument.create(uri, '', 0, originalContent), fixedContent);
+		if (edits.length === 0) {
+			return false;
+		}
+		const textChange = workspaceChange.getTextEditChange({ uri, version: openDocument !== undefined ? openDocument.version : null });
+		for (const edit of edits) {
+			if (annotationId !== undefined) {
+				textChange.replace(edit.range, edit.newText, annotationId);
+			} else {
+				textChange.add(edit);
+			}
+		}
+		return true;
+	}
+}
+
+type SuppressionsParams = {
+	/**
+	 * The uri of the workspace folder to update. All folders are updated if omitted.
+	 */
+	folder?: string;
+};
+
+namespace SuppressionsParams {
+	export function is(value: any): value is SuppressionsParams {
+		const candidate = value as SuppressionsParams;
+		return candidate !== undefined && candidate !== null && (candidate.folder === undefined || Is.string(candidate.folder));
+	}
+}
+
+/**
+ * Updates ESLint's bulk suppressions files. The files are written to disk directly like
+ * the ESLint CLI does. The client watches them, so diagnostics refresh afterwards.
+ */
+namespace BulkSuppressions {
+
+	/**
+	 * Suppresses all current errors of a rule in a document.
+	 */
+	export async function suppress(params: CommandParams & { ruleId: string }): Promise<void> {
+		const textDocument = documents.get(params.uri);
+		if (textDocument === undefined || textDocument.version !== params.version) {
+			return;
+		}
+		const settings = await ESLint.resolveSettings(textDocument);
+		if (settings.validate !== Validate.on || !TextDocumentSettings.hasLibrary(settings)) {
+			return;
+		}
+		// Suppressions are recorded per file on disk.
+		const filePath = inferFilePath(textDocument, settings.useRealpaths);
+		if (filePath === undefined) {
+			return;
+		}
+		try {
+			const count = (await ESLint.countErrors(textDocument.getText(), filePath, settings)).get(params.ruleId);
+			if (count === undefined) {
+				connection.console.info(`${filePath} has no ${params.ruleId} errors to suppress.`);
+				return;
+			}
+			const location = ESLint.getSuppressionsLocation(settings);
+			const content = Suppressions.read(location.filePath);
+			Suppressions.suppress(content, Suppressions.getKey(location.cwd, filePath), params.ruleId, count);
+			Suppressions.write(location.filePath, content);
+		} catch (error: any) {
+			connection.console.error(`Suppressing ${params.ruleId} in ${filePath} failed: ${error?.message ?? error}`);
+		}
+	}
+
+	/**
+	 * Removes the suppressions that are no longer needed like `eslint --prune-suppressions`.
+	 * Returns the number of removed suppressions.
+	 */
+	export async function prune(params: SuppressionsParams, token: CancellationToken, workDone: WorkDoneProgressReporter): Promise<number> {
+		const work = await getSuppressionsWorkingDirectories(params.folder, token);
+		const result = await forEachWorkingDirectory(work, 'Pruning obsolete ESLint suppressions', token, workDone, settings => pruneFile(settings, token));
+		connection.console.info(`Pruned ${result} obsolete ESLint suppressions.`);
+		return result;
+	}
+
+	/**
+	 * Suppresses the current errors of all files like `eslint --suppress-all`. This gives
+	 * ESLint versions without bulk suppressions in the Node.js API a baseline the extension
+	 * applies. Returns the number of suppressed errors.
+	 */
+	export async function createBaseline(params: SuppressionsParams, token: CancellationToken, workDone: WorkDoneProgressReporter): Promise<number> {
+		const work = await getWorkingDirectoryFiles(params.folder, token);
+		const result = await forEachWorkingDirectory(work, 'Creating the ESLint suppressions baseline', token, workDone, (settings, files) => createBaselineFile(settings, files, token));
+		connection.console.info(`Suppressed ${result} ESLint errors.`);
+		return result;
+	}
+
+	async function forEachWorkingDirectory(work: WorkingDirectoryFiles[], title: string, token: CancellationToken, workDone: WorkDoneProgressReporter, func: (settings: TextDocumentSettings & { library: ESLintModule }, files: string[]) => Promise<number>): Promise<number> {
+		let result: number = 0;
+		workDone.begin(title, 0, undefined, true);
+		try {
+			for (let i = 0; i < work.length; i++) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				const { configuration, folderPath, workingDirectory, files } = work[i];
+				const settings = await ESLint.resolveWorkingDirectorySettings(configuration, folderPath, workingDirectory);
+				if (settings.validate === Validate.on && TextDocumentSettings.hasLibrary(settings)) {
+					try {
+						result += await func(settings, files);
+					} catch (error: any) {
+						connection.console.error(`Updating the suppressions in ${workingDirectory.directory} failed: ${error?.message ?? error}`);
+					}
+				}
+				workDone.report(Math.round((i + 1) / work.length * 100));
+			}
+		} finally {
+			workDone.done();
+		}
+		return result;
+	}
+
+	async function pruneFile(settings: TextDocumentSettings & { library: ESLintModule }, token: CancellationToken): Promise<number> {
+		const location = ESLint.getSuppressionsLocation(settings);
+		if (!fs.existsSync(location.filePath)) {
+			return 0;
+		}
+		const content = Suppressions.read(location.filePath);
+		const key2FilePath: Map<string, string> = new Map(Object.keys(content).map(key => [key, path.resolve(location.cwd, key)]));
+		const errors = await ESLint.countFileErrors(Array.from(key2FilePath.values()).filter(filePath => fs.existsSync(filePath)), settings, token);
+		if (token.isCancellationRequested) {
+			return 0;
+		}
+		const result = Suppressions.prune(content, key => errors.get(key2FilePath.get(key)!));
+		if (result > 0) {
+			Suppressions.write(location.filePath, content);
+		}
+		return result;
+	}
+
+	async function createBaselineFile(settings: TextDocumentSettings & { library: ESLintModule }, files: string[], token: CancellationToken): Promise<number> {
+		const location = ESLint.getSuppressionsLocation(settings);
+		const errors = await ESLint.countFileErrors(files, settings, token);
+		if (token.isCancellationRequested) {
+			return 0;
+		}
+		// Files of other languages keep their suppressions.
+		const content = Suppressions.read(location.filePath);
+		let result: number = 0;
+		for (const filePath of files) {
+			result += Suppressions.update(content, Suppressions.getKey(location.cwd, filePath), errors.get(filePath) ?? new Map());
+		}
+		if (result > 0 || fs.existsSync(location.filePath)) {
+			Suppressions.write(location.filePath, content);
+		}
+		return result;
+	}
+}
+
+connection.onExecuteCommand(async (params, token, workDone) => {
 	let workspaceChange: WorkspaceChange | undefined;
 	const commandParams: CommandParams = params.arguments![0] as CommandParams;
-	if (params.command === CommandIds.applyAllFixes) {
-		const edits = await computeAllFixes(commandParams, AllFixesMode.command);
+	if (params.command === CommandIds.applyWorkspaceFixes) {
+		const workspaceFixesParams: unknown = params.arguments?.[0] ?? {};
+		if (WorkspaceFixesParams.is(workspaceFixesParams)) {
+			workspaceChange = await WorkspaceFixes.compute(workspaceFixesParams, token, workDone);
+		}
+	} else if (params.command === CommandIds.removeUnusedDirectives) {
+		const edits = await computeUnusedDirectiveRemovals(commandParams);
 		if (edits !== undefined && edits.length > 0) {
 			workspaceChange = new WorkspaceChange();
 			const textChange = workspaceChange.getTextEditChange(commandParams);
 			edits.forEach(edit => textChange.add(edit));
 		}
-	} else {
-		if ([CommandIds.applySingleFix, CommandIds.applyDisableLine, CommandIds.applyDisableFile].indexOf(params.command) !== -1) {
-			workspaceChange = changes.get(`${params.command}:${commandParams.ruleId}`);
-		} else if ([CommandIds.applySuggestion].indexOf(params.command) !== -1) {
-			workspaceChange = changes.get(`${params.command}:${commandParams.ruleId}:${commandParams.sequence}`);
-		} else if (params.command === CommandIds.openRuleDoc && CommandParams.hasRuleId(commandParams)) {
-			const url = RuleMetaData.getUrl(commandParams.ruleId);
-			if (url) {
-				void connection.sendRequest(OpenESLintDocRequest.type, { url });
+	} else if (params.command === CommandIds.disableRuleWithDescription) {
+		// The client asks for the description and passes it as the second argument.
+		const data: unknown = params.arguments?.[0];
+		const description: unknown = params.arguments?.[1];
+		if (CodeActionData.is(data) && Is.string(description)) {
+			const textDocument = documents.get(data.textDocument.uri);
+			if (textDocument !== undefined && textDocument.version === data.textDocument.version) {
+				const edits = await computeCodeActionEdits(textDocument, data, description);
+				if (edits.length > 0) {
+					workspaceChange = new WorkspaceChange();
+					const textChange = workspaceChange.getTextEditChange(data.textDocument);
+					edits.forEach(edit => textChange.add(edit));
+				}
 			}
-		} else {
-			workspaceChange = changes.get(params.command);
+		}
+	} else if (params.command === CommandIds.suppressRule && CommandParams.hasRuleId(commandParams)) {
+		await BulkSuppressions.suppress(commandParams);
+	} else if (params.command === CommandIds.applyPruneSuppressions || params.command === CommandIds.applySuppressionsBaseline) {
+		const suppressionsParams: unknown = params.arguments?.[0] ?? {};
+		if (SuppressionsParams.is(suppressionsParams)) {
+			return params.command === CommandIds.applyPruneSuppressions
+				? BulkSuppressions.prune(suppressionsParams, token, workDone)
+				: BulkSuppressions.createBaseline(suppressionsParams, token, workDone);
+		}
+	} else if (params.command === CommandIds.applyAllFixes) {
+		const edits = await computeAllFixes(commandParams, AllFixesMode.command);
+		if (edits !== undefined && edits.length > 0) {
+			workspaceChange = new WorkspaceChange();
+			const textChange = workspaceChange.getTextEditChange(commandParams);
+			edits.forEach(edit => textChange.add(edit));
+		}
+	} else if (params.command === CommandIds.openRuleDoc && CommandParams.hasRuleId(commandParams)) {
+		const textDocument = documents.get(commandParams.uri);
+		const url = textDocument !== undefined ? RuleMetaData.getUrl(commandParams.ruleId, await ESLint.resolveSettings(textDocument)) : undefined;
+		if (url) {
+			void connection.sendRequest(OpenESLintDocRequest.type, { url });
 		}
 	}
 
@@ -851,6 +1999,117 @@ connection.onExecuteCommand(async (params) => {
 	});
 });
 
+/**
+ * Describes the rules of the problems at a position: their documentation from the rule's
+ * meta data and their configuration for the document.
+ */
+namespace RuleHover {
+
+	const severities: Map<SeverityConf, string> = new Map<SeverityConf, string>([[0, 'off'], [1, 'warn'], [2, 'error']]);
+	const diagnosticSeverities: Map<DiagnosticSeverity, string> = new Map<DiagnosticSeverity, string>([
+		[DiagnosticSeverity.Error, 'error'], [DiagnosticSeverity.Warning, 'warn'], [DiagnosticSeverity.Information, 'info'], [DiagnosticSeverity.Hint, 'hint']
+	]);
+
+	export async function compute(params: HoverParams): Promise<Hover | null> {
+		const textDocument = documents.get(params.textDocument.uri);
+		// Only the problems the client shows get a hover.
+		const diagnostics = textDocument !== undefined ? DocumentReports.getDiagnostics(textDocument) : undefined;
+		if (textDocument === undefined || diagnostics === undefined) {
+			return null;
+		}
+		const ruleIds: Map<string, Diagnostic> = new Map();
+		for (const diagnostic of diagnostics) {
+			if (Is.string(diagnostic.code) && contains(diagnostic.range, params.position) && !ruleIds.has(diagnostic.code)) {
+				ruleIds.set(diagnostic.code, diagnostic);
+			}
+		}
+		if (ruleIds.size === 0) {
+			return null;
+		}
+		const settings = await ESLint.resolveSettings(textDocument);
+		if (settings.validate !== Validate.on || !TextDocumentSettings.hasLibrary(settings)) {
+			return null;
+		}
+		const sections: string[] = [];
+		for (const [ruleId, diagnostic] of ruleIds) {
+			let ruleConfig: RuleConf | undefined;
+			if (ruleId !== RuleMetaData.unusedDisableDirectiveId) {
+				try {
+					ruleConfig = await ESLint.getRuleConfig(textDocument, settings, ruleId);
+				} catch (error: any) {
+					connection.console.error(`Calculating the configuration of ${ruleId} failed: ${error?.message ?? error}`);
+				}
+			}
+			// `eslint.rules.customizations` can change the severity a problem is reported with.
+			const reported = RuleSeverities.getOverride(ruleId, settings.rulesCustomizations) !== undefined && diagnostic.severity !== undefined
+				? diagnosticSeverities.get(diagnostic.severity)
+				: undefined;
+			sections.push(format(ruleId, RuleMetaData.get(ruleId, settings), RuleMetaData.getUrl(ruleId, settings), ruleConfig, reported));
+		}
+		return { contents: { kind: MarkupKind.Markdown, value: sections.join('\n\n---\n\n') } };
+	}
+
+	function contains(range: Range, position: Position): boolean {
+		if (position.line < range.start.line || position.line > range.end.line) {
+			return false;
+		}
+		if (position.line === range.start.line && position.character < range.start.character) {
+			return false;
+		}
+		return !(position.line === range.end.line && position.character > range.end.character);
+	}
+
+	function format(ruleId: string, meta: RuleMetaData | undefined, url: string | undefined, ruleConfig: RuleConf | undefined, reported: string | undefined): string {
+		const result: string[] = [];
+		result.push(url !== undefined ? `**[${ruleId}](${url})**` : `**${ruleId}**`);
+		if (meta?.docs?.description !== undefined) {
+			result.push(meta.docs.description);
+		}
+		const flags: string[] = [];
+		if (meta?.type !== undefined) {
+			flags.push(`Type: ${meta.type}`);
+		}
+		if (meta?.fixable !== undefined) {
+			flags.push(`Fixable: ${meta.fixable}`);
+		}
+		if (meta?.hasSuggestions === true) {
+			flags.push('Has suggestions');
+		}
+		const deprecation = getDeprecation(meta);
+		if (deprecation !== undefined) {
+			flags.push(deprecation);
+		}
+		if (flags.length > 0) {
+			result.push(flags.join(' · '));
+		}
+		if (ruleConfig !== undefined) {
+			const [severity, ...options] = Array.isArray(ruleConfig) ? ruleConfig : [ruleConfig];
+			const configured = severities.get(severity) ?? severity;
+			result.push(reported !== undefined && reported !== configured
+				? `Severity: ${configured} (reported as ${reported} due to \`eslint.rules.customizations\`)`
+				: `Severity: ${configured}`);
+			if (options.length > 0) {
+				result.push(`Options:\n\`\`\`json\n${JSON.stringify(options, undefined, 2)}\n\`\`\``);
+			}
+		}
+		return result.join('\n\n');
+	}
+
+	function getDeprecation(meta: RuleMetaData | undefined): string | undefined {
+		if (meta?.deprecated === undefined || meta.deprecated === false) {
+			return undefined;
+		}
+		const replacedBy: string[] = meta.deprecated !== true
+			? (meta.deprecated.replacedBy ?? []).map(item => item.rule?.name).filter(Is.string)
+			: meta.replacedBy ?? [];
+		return replacedBy.length > 0 ? `Deprecated, replaced by ${replacedBy.join(', ')}` : 'Deprecated';
+	}
+}
+
+connection.onHover((params) => {
+	return RuleHover.compute(params);
+});
+
 connection.onDocumentFormatting((params) => {
 	const textDocument = documents.get(params.textDocument.uri);
 	if (textDocument === undefined) {
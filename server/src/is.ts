@@ -15,4 +15,7 @@ export function nullOrUndefined(value: any): value is null | undefined {
 
 export function string(value: any): value is string {
 	return toString.call(value) === '[object String]';
-}
\ No newline at end of file
+}
+export function stringArray(value: any): value is string[] {
+	return Array.isArray(value) && value.every(item => string(item));
+}
@@ -5,10 +5,16 @@
 
 // This should either come from LSP or VS Code. That we repeat this is bogus.
 
+import { LanguageSettings } from './shared/settings';
+import * as Is from './is';
+
+/**
+ * A language without a line or block comment can't have disable comments of that style.
+ */
 type LanguageConfig = {
-	ext: string;
-	lineComment: string;
-	blockComment: [string, string];
+	ext?: string;
+	lineComment?: string;
+	blockComment?: [string, string];
 };
 
 const languageId2Config: Map<string, LanguageConfig> = new Map([
@@ -18,23 +24,75 @@ const languageId2Config: Map<string, LanguageConfig> = new Map([
 	['typescriptreact', { ext: 'tsx', lineComment: '//', blockComment: ['/*', '*/'] } ],
 	['html', { ext: 'html', lineComment: '//', blockComment: ['<!--', '-->'] }],
 	['vue', { ext: 'vue', lineComment: '//', blockComment: ['<!--', '-->'] }],
+	['svelte', { ext: 'svelte', lineComment: '//', blockComment: ['<!--', '-->'] }],
+	['astro', { ext: 'astro', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['civet', { ext: 'civet', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['glimmer-js', { ext: 'gjs', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['glimmer-ts', { ext: 'gts', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['handlebars', { ext: 'hbs', blockComment: ['{{!--', '--}}'] }],
+	['markdown', { ext: 'md', blockComment: ['<!--', '-->'] }],
+	['mdx', { ext: 'mdx', blockComment: ['{/*', '*/}'] }],
+	['css', { ext: 'css', blockComment: ['/*', '*/'] }],
+	['scss', { ext: 'scss', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['less', { ext: 'less', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['json', { ext: 'json' }],
+	['jsonc', { ext: 'jsonc', lineComment: '//', blockComment: ['/*', '*/'] }],
+	['json5', { ext: 'json5', lineComment: '//', blockComment: ['/*', '*/'] }],
 	['coffeescript', { ext: 'coffee', lineComment: '#', blockComment: ['###', '###'] }],
 	['yaml', { ext: 'yaml', lineComment: '#', blockComment: ['#', ''] }],
+	['toml', { ext: 'toml', lineComment: '#', blockComment: ['#', ''] }],
 	['graphql', { ext: 'graphql', lineComment: '#', blockComment: ['#', ''] }]
 ]);
 
+const defaultConfig: LanguageConfig = { lineComment: '//', blockComment: ['/*', '*/'] };
+
 namespace LanguageDefaults {
-	export function getLineComment(languageId: string): string {
-		return languageId2Config.get(languageId)?.lineComment ?? '//';
+
+	/**
+	 * Returns the line comment of a language or `undefined` if the language has none.
+	 *
+	 * @param languages the languages configured using the `eslint.languages` setting.
+	 */
+	export function getLineComment(languageId: string, languages?: Record<string, LanguageSettings>): string | undefined {
+		return getConfig(languageId, languages).lineComment;
+	}
+
+	/**
+	 * Returns the block comment of a language or `undefined` if the language has none.
+	 */
+	export function getBlockComment(languageId: string, languages?: Record<string, LanguageSettings>): [string, string] | undefined {
+		return getConfig(languageId, languages).blockComment;
+	}
+
+	export function getExtension(languageId: string, languages?: Record<string, LanguageSettings>): string | undefined {
+		return getConfig(languageId, languages).ext;
+	}
+
+	/**
+	 * Whether ESLint disable comments can be added to documents of a language.
+	 */
+	export function hasComments(languageId: string, languages?: Record<string, LanguageSettings>): boolean {
+		const config = getConfig(languageId, languages);
+		return config.lineComment !== undefined || config.blockComment !== undefined;
 	}
 
-	export function getBlockComment(languageId: string): [string, string] {
-		return languageId2Config.get(languageId)?.blockComment ?? ['/*', '*/'];
+	function getConfig(languageId: string, languages: Record<string, LanguageSettings> | undefined): LanguageConfig {
+		const result = languageId2Config.get(languageId) ?? defaultConfig;
+		const custom = languages?.[languageId];
+		if (custom === undefined || custom === null || typeof custom !== 'object') {
+			return result;
+		}
+		// `null` removes a comment style of the built-in configuration.
+		return {
+			ext: Is.string(custom.ext) ? custom.ext.replace(/^\./, '') : result.ext,
+			lineComment: custom.lineComment === null ? undefined : Is.string(custom.lineComment) ? custom.lineComment : result.lineComment,
+			blockComment: custom.blockComment === null ? undefined : isBlockComment(custom.blockComment) ? custom.blockComment : result.blockComment
+		};
 	}
 
-	export function getExtension(languageId: string): string | undefined {
-		return languageId2Config.get(languageId)?.ext;
+	function isBlockComment(value: any): value is [string, string] {
+		return Array.isArray(value) && value.length === 2 && Is.string(value[0]) && Is.string(value[1]);
 	}
 }
 
-export default LanguageDefaults;
\ No newline at end of file
+export default LanguageDefaults;
@@ -107,6 +107,19 @@ function tryRealpath(path: string): string {
 	}
 }
 
+/**
+ * Returns whether the file system path is the given directory or located below it.
+ */
+export function isInDirectory(path: string, directory: string): boolean {
+	const separator = process.platform === 'win32' ? /[\\/]+$/ : /\/+$/;
+	const file = path.replace(separator, '');
+	const prefix = directory.replace(separator, '');
+	if (process.platform === 'win32') {
+		return file.toLowerCase() === prefix.toLowerCase() || file.toLowerCase().startsWith(`${prefix.toLowerCase()}\\`);
+	}
+	return file === prefix || file.startsWith(`${prefix}/`);
+}
+
 export function normalizePath(path: string): string;
 export function normalizePath(path: undefined): undefined;
 export function normalizePath(path: string | undefined): string | undefined {
@@ -0,0 +1,139 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Reads and updates ESLint's bulk suppressions file (`eslint-suppressions.json`).
+ * The file maps the paths of linted files relative to ESLint's working directory to
+ * the number of errors per rule that are suppressed:
+ *
+ * ```json
+ * { "src/a.js": { "no-unused-vars": { "count": 2 } } }
+ * ```
+ *
+ * ESLint reports all errors of a rule in a file again as soon as there are more
+ * errors than suppressed ones.
+ */
+export namespace Suppressions {
+
+	export const defaultLocation: string = 'eslint-suppressions.json';
+
+	export type Content = Record<string, Record<string, { count: number }>>;
+
+	/**
+	 * Returns the key of a file in the suppressions file.
+	 *
+	 * @param cwd ESLint's working directory.
+	 * @param filePath the absolute path of the linted file.
+	 */
+	export function getKey(cwd: string, filePath: string): string {
+		return path.relative(cwd, filePath).split(path.sep).join('/');
+	}
+
+	/**
+	 * Reads a suppressions file. A missing file has no suppressions.
+	 */
+	export function read(filePath: string): Content {
+		let text: string;
+		try {
+			text = fs.readFileSync(filePath, 'utf8');
+		} catch (error: any) {
+			if (error?.code === 'ENOENT') {
+				return {};
+			}
+			throw error;
+		}
+		const result = JSON.parse(text);
+		if (result === null || typeof result !== 'object' || Array.isArray(result)) {
+			throw new Error(`The suppressions file ${filePath} doesn't contain an object.`);
+		}
+		return result as Content;
+	}
+
+	export function write(filePath: string, content: Content): void {
+		fs.writeFileSync(filePath, `${JSON.stringify(content, null, 2)}\n`, 'utf8');
+	}
+
+	/**
+	 * Suppresses the given number of errors of a rule in a file.
+	 */
+	export function suppress(content: Content, key: string, ruleId: string, count: number): void {
+		let rules = content[key];
+		if (rules === undefined) {
+			rules = {};
+			content[key] = rules;
+		}
+		rules[ruleId] = { count };
+	}
+
+	/**
+	 * Replaces the suppressions of a file with its current errors. The file is removed
+	 * if it has no errors.
+	 *
+	 * @returns the number of suppressed errors.
+	 */
+	export function update(content: Content, key: string, errors: ReadonlyMap<string, number>): number {
+		delete content[key];
+		let result: number = 0;
+		for (const [ruleId, count] of errors) {
+			suppress(content, key, ruleId, count);
+			result += count;
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the rules whose errors are suppressed in a file. Like in ESLint the errors of
+	 * a rule are only suppressed if there aren't more of them than suppressed ones.
+	 */
+	export function getSuppressedRules(content: Content, key: string, errors: ReadonlyMap<string, number>): Set<string> {
+		const result: Set<string> = new Set();
+		const rules = content[key];
+		if (rules === undefined) {
+			return result;
+		}
+		for (const [ruleId, count] of errors) {
+			const suppressed = rules[ruleId]?.count;
+			if (typeof suppressed === 'number' && count <= suppressed) {
+				result.add(ruleId);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Removes the suppressions that are no longer needed like `eslint --prune-suppressions`
+	 * does. Counts higher than the number of actual errors are lowered. Rules and files
+	 * without errors are removed.
+	 *
+	 * @param getErrors returns the number of errors per rule of a file or `undefined`
+	 * if the file doesn't exist anymore.
+	 * @returns the number of removed suppressions.
+	 */
+	export function prune(content: Content, getErrors: (key: string) => ReadonlyMap<string, number> | undefined): number {
+		let result: number = 0;
+		for (const key of Object.keys(content)) {
+			const errors = getErrors(key);
+			const rules = content[key];
+			for (const ruleId of Object.keys(rules)) {
+				const actual = errors?.get(ruleId) ?? 0;
+				const suppressed = rules[ruleId].count;
+				if (actual === 0) {
+					delete rules[ruleId];
+					result += suppressed;
+				} else if (actual < suppressed) {
+					rules[ruleId] = { count: actual };
+					result += suppressed - actual;
+				}
+			}
+			if (Object.keys(rules).length === 0) {
+				delete content[key];
+			}
+		}
+		return result;
+	}
+}
@@ -0,0 +1,75 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, afterEach, before, describe, it } from 'node:test';
+
+import { Dependencies } from '../dependencies';
+
+void describe('Dependencies', () => {
+	let root: string;
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-dependencies-'));
+		for (const file of ['tsconfig.json', 'a.ts', 'b.ts', 'c.ts', 'lib/index.ts', 'other/tsconfig.json', 'other/d.ts']) {
+			const filePath = path.join(root, file);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, '');
+		}
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	afterEach(() => {
+		Dependencies.clear();
+	});
+
+	void it('parses import specifiers', () => {
+		const text = [
+			`import a from './a';`,
+			`import { b, type c } from "./b";`,
+			`import type {`,
+			`	d`,
+			`} from '../d';`,
+			`export * from './e';`,
+			`import './f';`,
+			`const g = require('./g');`,
+			`const h = await import('h');`,
+			`import i = require('./i');`
+		].join('\n');
+		assert.deepStrictEqual(Dependencies.parseImports(text).sort(), ['../d', './a', './b', './e', './f', './g', './i', 'h']);
+	});
+
+	void it('resolves relative specifiers', () => {
+		const importer = path.join(root, 'a.ts');
+		assert.strictEqual(Dependencies.resolve(importer, './b'), path.join(root, 'b.ts'));
+		assert.strictEqual(Dependencies.resolve(importer, './b.js'), path.join(root, 'b.ts'));
+		assert.strictEqual(Dependencies.resolve(importer, './lib'), path.join(root, 'lib', 'index.ts'));
+		assert.strictEqual(Dependencies.resolve(importer, './missing'), undefined);
+		assert.strictEqual(Dependencies.resolve(importer, 'typescript'), undefined);
+	});
+
+	void it('finds dependents in the same project', () => {
+		const uri = (file: string) => `file:///${file}`;
+		const track = (file: string, text: string) => {
+			const filePath = path.join(root, file);
+			Dependencies.update(uri(file), filePath, Dependencies.getGroup(filePath, root), text);
+		};
+		track('a.ts', `import { b } from './b';`);
+		track('b.ts', `import { c } from './c';`);
+		track('c.ts', ``);
+		track('other/d.ts', `import { c } from '../c';`);
+		assert.deepStrictEqual(Dependencies.getDependents(uri('c.ts')), [uri('b.ts'), uri('a.ts')]);
+		assert.deepStrictEqual(Dependencies.getDependents(uri('a.ts')), []);
+
+		Dependencies.remove(uri('b.ts'));
+		assert.deepStrictEqual(Dependencies.getDependents(uri('c.ts')), []);
+	});
+});
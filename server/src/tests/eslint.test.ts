@@ -4,11 +4,18 @@
  * ------------------------------------------------------------------------------------------ */
 
 import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { describe, it } from 'node:test';
 
+import { DiagnosticSeverity } from 'vscode-languageserver';
+
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
 
-import { Diagnostics, ESLint } from '../eslint';
+import { Diagnostics, ESLint, ESLintError, RuleMetaData } from '../eslint';
+import { Status, StatusReason } from '../shared/customMessages';
 import { Validate } from '../shared/settings';
 
 void describe('ESLint diagnostics', () => {
@@ -58,7 +65,7 @@ void describe('ESLint settings', () => {
 					return null;
 				}
 			}
-		} as any, {} as any, () => undefined, () => undefined);
+		} as any, () => undefined, () => undefined);
 
 		const settings = await ESLint.resolveSettings(document);
 
@@ -67,4 +74,193 @@ void describe('ESLint settings', () => {
 		assert.strictEqual(settings.packageManager, 'npm');
 		assert.strictEqual(settings.workingDirectory, undefined);
 	});
+
+	void it('removes the settings of documents in changed directories', async () => {
+		const inside = TextDocument.create('file:///workspace/a/test.js', 'javascript', 1, '');
+		const outside = TextDocument.create('file:///workspace/ab/test.js', 'javascript', 1, '');
+
+		ESLint.clearSettings();
+		ESLint.initialize({
+			workspace: {
+				getConfiguration: async () => null
+			}
+		} as any, (documentOrUri: any) => URI.parse(typeof documentOrUri === 'string' ? documentOrUri : documentOrUri.uri).fsPath, () => undefined);
+
+		await ESLint.resolveSettings(inside);
+		await ESLint.resolveSettings(outside);
+
+		assert.deepStrictEqual(await ESLint.removeSettingsIn([URI.file('/workspace/a').fsPath]), [inside.uri]);
+		assert.deepStrictEqual(await ESLint.removeSettingsIn([URI.file('/workspace/a').fsPath]), []);
+		assert.deepStrictEqual(await ESLint.removeSettingsIn([URI.file('/workspace').fsPath]), [outside.uri]);
+	});
+});
+
+void describe('ESLint bulk suppressions', () => {
+	void it('emulates suppressions for open and closed files alike', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-validate-'));
+		try {
+			const filePath = path.join(root, 'a.js');
+			fs.writeFileSync(filePath, 'foo;\nbar;\n');
+			fs.writeFileSync(path.join(root, 'eslint-suppressions.json'), JSON.stringify({ 'a.js': { 'no-undef': { count: 2 } } }));
+			const report = (reportPath: string) => ({
+				filePath: reportPath,
+				messages: [
+					{ ruleId: 'no-undef', severity: 2, message: '\'foo\' is not defined.', line: 1, column: 1 },
+					{ ruleId: 'no-undef', severity: 2, message: '\'bar\' is not defined.', line: 2, column: 1 }
+				]
+			});
+			const library = {
+				ESLint: class {
+					static version = '9.0.0';
+					async lintText(_content: string, options: { filePath: string }) { return [report(options.filePath)]; }
+					async lintFiles(filePaths: string[]) { return filePaths.map(report); }
+					async isPathIgnored() { return false; }
+					async calculateConfigForFile() { return {}; }
+				}
+			};
+			const settings = {
+				validate: Validate.on, quiet: false, useESLintClass: false, configLookup: 'auto', options: {}, rulesCustomizations: [], onIgnoredFiles: 'off',
+				problems: { shortenToSingleLine: false }, bulkSuppression: { enable: true, severity: 'hint' },
+				workingDirectory: { directory: root }, library
+			} as any;
+			ESLint.initialize({ console: { error: () => undefined }, tracer: { log: () => undefined } } as any, () => filePath, () => undefined);
+
+			const document = TextDocument.create(URI.file(filePath).toString(), 'javascript', 1, fs.readFileSync(filePath, 'utf8'));
+			const open = await ESLint.validate(document, settings);
+			const closed = (await ESLint.validateFiles([filePath], settings)).get(filePath);
+
+			assert.deepStrictEqual(open.map(diagnostic => diagnostic.severity), [DiagnosticSeverity.Hint, DiagnosticSeverity.Hint]);
+			assert.deepStrictEqual(closed, open);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
+
+void describe('ESLint rule meta data', () => {
+	void it('keeps the meta data per working directory', () => {
+		const root = path.join(os.tmpdir(), 'eslint-meta');
+		const first = { workingDirectory: { directory: path.join(root, 'a') } } as any;
+		const second = { workingDirectory: { directory: path.join(root, 'b') } } as any;
+		const eslint = (url: string) => ({ getRulesMetaForResults: () => ({ 'plugin/rule': { docs: { url } } }) }) as any;
+		RuleMetaData.clear();
+		RuleMetaData.capture(eslint('https://a'), [], first);
+		RuleMetaData.capture(eslint('https://b'), [], second);
+		assert.strictEqual(RuleMetaData.getUrl('plugin/rule', first), 'https://a');
+		assert.strictEqual(RuleMetaData.getUrl('plugin/rule', second), 'https://b');
+
+		RuleMetaData.clearIn([path.join(root, 'a')]);
+		assert.strictEqual(RuleMetaData.getUrl('plugin/rule', first), undefined);
+		assert.strictEqual(RuleMetaData.getUrl('plugin/rule', second), 'https://b');
+		assert.strictEqual(RuleMetaData.get(RuleMetaData.unusedDisableDirectiveId, first)?.type, 'directive');
+	});
+});
+
+void describe('ESLint configuration errors', () => {
+	void it('locates syntax errors in CommonJS configuration files', () => {
+		const error = new SyntaxError('Unexpected token \',\'');
+		error.stack = '/project/eslint.config.cjs:3\n    "no-var": "error",,\n                      ^\n\nSyntaxError: Unexpected token \',\'\n    at wrapSafe (node:internal/modules/cjs/loader:1464:18)';
+		assert.deepStrictEqual(ESLintError.getConfigLocation(error), { filePath: '/project/eslint.config.cjs', line: 3, column: 23 });
+	});
+
+	void it('locates errors thrown by a configuration file', () => {
+		const error = new TypeError('Cannot set properties of undefined (setting \'c\')');
+		error.stack = 'TypeError: Cannot set properties of undefined (setting \'c\')\n    at file:///project/eslint.config.mjs?mtime=1792434627046:2:7\n    at ModuleJob.run (node:internal/modules/esm/module_job:325:25)';
+		assert.deepStrictEqual(ESLintError.getConfigLocation(error), { filePath: '/project/eslint.config.mjs', line: 2, column: 7 });
+	});
+
+	void it('locates missing modules imported by a configuration file', () => {
+		const error = new Error('Cannot find package \'eslint-plugin-missing\' imported from /project/eslint.config.mjs');
+		error.stack = 'Error [ERR_MODULE_NOT_FOUND]: Cannot find package \'eslint-plugin-missing\' imported from /project/eslint.config.mjs\n    at packageResolve (node:internal/modules/esm/resolve:873:9)';
+		assert.deepStrictEqual(ESLintError.getConfigLocation(error), { filePath: '/project/eslint.config.mjs' });
+	});
+
+	void it('locates unresolved extends in eslintrc files', () => {
+		const error = new Error('Cannot find module \'eslint-config-missing\'\nReferenced from: /project/.eslintrc.json');
+		assert.deepStrictEqual(ESLintError.getConfigLocation(error), { filePath: '/project/.eslintrc.json' });
+	});
+
+	void it('uses the flat configuration file for invalid rule options', () => {
+		const error = Object.assign(new Error('Config (unnamed): Key "rules": Key "no-var": Expected severity of "off", 0, "warn", 1, "error", or 2.'), {
+			name: 'ConfigError',
+			messageTemplate: 'invalid-rule-severity',
+			messageData: { ruleId: 'no-var', value: 'bogus' }
+		});
+		error.stack = `ConfigError: ${error.message}\n    at rethrowConfigError (/project/node_modules/@eslint/config-array/dist/cjs/index.cjs:343:8)`;
+		assert.strictEqual(ESLintError.getConfigLocation(error), undefined);
+		assert.deepStrictEqual(ESLintError.getConfigLocation(error, () => '/project/eslint.config.js'), { filePath: '/project/eslint.config.js', ruleId: 'no-var' });
+	});
+
+	void it('uses the flat configuration file for syntax errors in ES modules', () => {
+		const error = new SyntaxError('Unexpected token \',\'');
+		error.stack = 'SyntaxError: Unexpected token \',\'\n    at compileSourceTextModule (node:internal/modules/esm/utils:346:16)\n    at ModuleLoader.moduleStrategy (node:internal/modules/esm/translators:146:18)';
+		assert.deepStrictEqual(ESLintError.getConfigLocation(error, () => '/project/eslint.config.mjs'), { filePath: '/project/eslint.config.mjs' });
+	});
+
+	void it('ignores errors unrelated to the configuration', () => {
+		const error = new TypeError('Cannot read properties of undefined (reading \'type\')');
+		error.stack = 'TypeError: Cannot read properties of undefined (reading \'type\')\n    at Object.create (/project/node_modules/eslint-plugin-x/lib/rule.js:10:5)';
+		assert.strictEqual(ESLintError.getConfigLocation(error, () => '/project/eslint.config.js'), undefined);
+	});
+});
+
+void describe('ESLint error classification', () => {
+	void it('classifies missing configurations', () => {
+		const flat = Object.assign(new Error('Could not find config file.'), { messageTemplate: 'config-file-missing' });
+		assert.deepStrictEqual(ESLintError.classify(flat), { status: Status.warn, reason: StatusReason.noConfig });
+		assert.deepStrictEqual(ESLintError.classify(new Error('No ESLint configuration found.')), { status: Status.warn, reason: StatusReason.noConfig });
+	});
+
+	void it('classifies missing plugins using the message data', () => {
+		const error = Object.assign(new Error('Failed to load plugin \'react\' declared in \'.eslintrc.json\': Cannot find module \'eslint-plugin-react\''), {
+			messageTemplate: 'plugin-missing',
+			messageData: { pluginName: 'eslint-plugin-react', importerName: '.eslintrc.json' }
+		});
+		assert.deepStrictEqual(ESLintError.classify(error), { status: Status.warn, reason: StatusReason.missingModule, detail: 'eslint-plugin-react', location: undefined });
+	});
+
+	void it('classifies packages missing in a flat configuration', () => {
+		const error = Object.assign(new Error('Cannot find package \'@scope/eslint-plugin/configs\' imported from /project/eslint.config.mjs'), { code: 'ERR_MODULE_NOT_FOUND' });
+		error.stack = `Error [ERR_MODULE_NOT_FOUND]: ${error.message}\n    at packageResolve (node:internal/modules/esm/resolve:873:9)`;
+		assert.deepStrictEqual(ESLintError.classify(error), {
+			status: Status.warn,
+			reason: StatusReason.missingModule,
+			detail: '@scope/eslint-plugin',
+			location: { filePath: '/project/eslint.config.mjs' }
+		});
+	});
+
+	void it('classifies missing relative modules as configuration errors', () => {
+		const error = Object.assign(new Error('Cannot find module \'./rules\'\nRequire stack:\n- /project/eslint.config.cjs'), { code: 'MODULE_NOT_FOUND' });
+		assert.deepStrictEqual(ESLintError.classify(error), {
+			status: Status.warn,
+			reason: StatusReason.configError,
+			detail: '/project/eslint.config.cjs',
+			location: { filePath: '/project/eslint.config.cjs' }
+		});
+	});
+
+	void it('falls back to the message of older ESLint versions', () => {
+		const error = new Error('Cannot find module \'eslint-config-airbnb\'\nReferenced from: /project/.eslintrc.json');
+		assert.deepStrictEqual(ESLintError.classify(error), {
+			status: Status.warn,
+			reason: StatusReason.missingModule,
+			detail: 'eslint-config-airbnb',
+			location: { filePath: '/project/.eslintrc.json' }
+		});
+	});
+
+	void it('classifies invalid rule options as configuration errors', () => {
+		const error = Object.assign(new Error('Key "rules": Key "no-var": Value [{"foo":1}] should NOT have more than 0 items.'), {
+			messageTemplate: 'invalid-rule-options',
+			messageData: { ruleId: 'no-var' }
+		});
+		assert.deepStrictEqual(ESLintError.classify(error), { status: Status.warn, reason: StatusReason.configError, detail: undefined, location: undefined });
+	});
+
+	void it('classifies other errors as unexpected', () => {
+		const error = new TypeError('Cannot read properties of undefined (reading \'type\')');
+		assert.deepStrictEqual(ESLintError.classify(error), { status: Status.error, reason: StatusReason.unexpectedError });
+		assert.deepStrictEqual(ESLintError.classify(undefined), { status: Status.error, reason: StatusReason.unexpectedError });
+	});
 });
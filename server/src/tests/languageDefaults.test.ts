@@ -0,0 +1,45 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import LanguageDefaults from '../languageDefaults';
+
+void describe('Language defaults', () => {
+	void it('uses the comments of the built-in languages', () => {
+		assert.strictEqual(LanguageDefaults.getLineComment('typescript'), '//');
+		assert.deepStrictEqual(LanguageDefaults.getBlockComment('svelte'), ['<!--', '-->']);
+		assert.strictEqual(LanguageDefaults.getLineComment('css'), undefined);
+		assert.deepStrictEqual(LanguageDefaults.getBlockComment('css'), ['/*', '*/']);
+		assert.strictEqual(LanguageDefaults.getExtension('markdown'), 'md');
+	});
+
+	void it('uses JavaScript comments for unknown languages', () => {
+		assert.strictEqual(LanguageDefaults.getLineComment('unknown'), '//');
+		assert.deepStrictEqual(LanguageDefaults.getBlockComment('unknown'), ['/*', '*/']);
+		assert.strictEqual(LanguageDefaults.getExtension('unknown'), undefined);
+	});
+
+	void it('has no comments for JSON', () => {
+		assert.strictEqual(LanguageDefaults.hasComments('json'), false);
+		assert.strictEqual(LanguageDefaults.hasComments('jsonc'), true);
+	});
+
+	void it('merges the configured languages with the built-in ones', () => {
+		const languages = {
+			markdown: { blockComment: null, lineComment: '%' },
+			json: { blockComment: ['/*', '*/'] as [string, string] },
+			erb: { ext: '.erb', lineComment: '#' }
+		};
+		assert.strictEqual(LanguageDefaults.getLineComment('markdown', languages), '%');
+		assert.strictEqual(LanguageDefaults.getBlockComment('markdown', languages), undefined);
+		assert.strictEqual(LanguageDefaults.getExtension('markdown', languages), 'md');
+		assert.strictEqual(LanguageDefaults.hasComments('json', languages), true);
+		assert.strictEqual(LanguageDefaults.getExtension('erb', languages), 'erb');
+		assert.strictEqual(LanguageDefaults.getLineComment('erb', languages), '#');
+		assert.deepStrictEqual(LanguageDefaults.getBlockComment('erb', languages), ['/*', '*/']);
+	});
+});
@@ -0,0 +1,25 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { isInDirectory } from '../paths';
+
+void describe('Paths', () => {
+	const root = path.resolve('/workspace');
+
+	void it('contains the directory itself and the paths below it', () => {
+		assert.ok(isInDirectory(root, root));
+		assert.ok(isInDirectory(path.join(root, 'src', 'index.js'), root));
+		assert.ok(isInDirectory(path.join(root, 'src'), `${root}${path.sep}`));
+	});
+
+	void it('does not contain siblings sharing a prefix or parents', () => {
+		assert.ok(!isInDirectory(path.join(root, 'src-old', 'index.js'), path.join(root, 'src')));
+		assert.ok(!isInDirectory(root, path.join(root, 'src')));
+	});
+});
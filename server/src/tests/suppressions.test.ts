@@ -0,0 +1,72 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { Suppressions } from '../suppressions';
+
+void describe('Suppressions', () => {
+	let root: string;
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-suppressions-'));
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	void it('uses posix paths relative to the working directory as keys', () => {
+		assert.strictEqual(Suppressions.getKey(root, path.join(root, 'src', 'a.js')), 'src/a.js');
+	});
+
+	void it('suppresses errors and writes the file', () => {
+		const filePath = path.join(root, Suppressions.defaultLocation);
+		const content = Suppressions.read(filePath);
+		assert.deepStrictEqual(content, {});
+		Suppressions.suppress(content, 'src/a.js', 'no-undef', 2);
+		Suppressions.suppress(content, 'src/a.js', 'no-var', 1);
+		Suppressions.suppress(content, 'src/a.js', 'no-undef', 3);
+		Suppressions.write(filePath, content);
+		assert.deepStrictEqual(Suppressions.read(filePath), { 'src/a.js': { 'no-undef': { count: 3 }, 'no-var': { count: 1 } } });
+	});
+
+	void it('replaces the suppressions of a file with its errors', () => {
+		const content: Suppressions.Content = {
+			'a.js': { 'no-undef': { count: 3 } },
+			'b.js': { 'no-var': { count: 2 } }
+		};
+		assert.strictEqual(Suppressions.update(content, 'a.js', new Map([['no-var', 1], ['prefer-const', 2]])), 3);
+		assert.strictEqual(Suppressions.update(content, 'b.js', new Map()), 0);
+		assert.deepStrictEqual(content, { 'a.js': { 'no-var': { count: 1 }, 'prefer-const': { count: 2 } } });
+	});
+
+	void it('suppresses the errors of a rule only up to the suppressed count', () => {
+		const content: Suppressions.Content = {
+			'a.js': { 'no-undef': { count: 2 }, 'no-var': { count: 1 } }
+		};
+		const errors = new Map([['no-undef', 2], ['no-var', 2], ['prefer-const', 1]]);
+		assert.deepStrictEqual(Suppressions.getSuppressedRules(content, 'a.js', errors), new Set(['no-undef']));
+		assert.deepStrictEqual(Suppressions.getSuppressedRules(content, 'b.js', errors), new Set());
+	});
+
+	void it('prunes obsolete suppressions', () => {
+		const content: Suppressions.Content = {
+			'a.js': { 'no-undef': { count: 3 }, 'no-var': { count: 1 } },
+			'b.js': { 'no-var': { count: 2 } },
+			'deleted.js': { 'no-var': { count: 1 } }
+		};
+		const errors: Map<string, Map<string, number>> = new Map([
+			['a.js', new Map([['no-undef', 2], ['no-var', 4]])],
+			['b.js', new Map()]
+		]);
+		assert.strictEqual(Suppressions.prune(content, key => errors.get(key)), 4);
+		assert.deepStrictEqual(content, { 'a.js': { 'no-undef': { count: 2 }, 'no-var': { count: 1 } } });
+	});
+});
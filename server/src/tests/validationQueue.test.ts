@@ -0,0 +1,95 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { DocumentDiagnosticParams, Message, NotificationMessage, RequestMessage } from 'vscode-languageserver/node';
+
+import { ValidationQueue } from '../validationQueue';
+
+function pull(id: number, uri: string): RequestMessage {
+	return { jsonrpc: '2.0', id, method: 'textDocument/diagnostic', params: { textDocument: { uri } } };
+}
+
+function notification(method: string, params?: object): NotificationMessage {
+	return { jsonrpc: '2.0', method, params };
+}
+
+// The queue dispatches from immediates. Waiting for a number of event loop turns
+// instead of a timeout keeps the tests independent of the machine's load.
+async function settle(): Promise<void> {
+	for (let i = 0; i < 20; i++) {
+		await new Promise(resolve => setImmediate(resolve));
+	}
+}
+
+void describe('Validation queue', () => {
+
+	void it('validates the active document first', async () => {
+		const versions = new Map([['file:///a.js', 1], ['file:///b.js', 1], ['file:///c.js', 1]]);
+		const queue = new ValidationQueue(uri => versions.get(uri));
+		const handled: string[] = [];
+		const next = (message: Message) => {
+			handled.push(Message.isRequest(message) ? (message.params as DocumentDiagnosticParams).textDocument.uri : (message as NotificationMessage).method);
+		};
+		queue.active = 'file:///c.js';
+		void queue.handleMessage(pull(1, 'file:///a.js'), next);
+		void queue.handleMessage(pull(2, 'file:///b.js'), next);
+		void queue.handleMessage(pull(3, 'file:///c.js'), next);
+		await queue.handleMessage(notification('textDocument/didChange'), next);
+		await settle();
+		assert.deepStrictEqual(handled, ['textDocument/didChange', 'file:///c.js', 'file:///a.js', 'file:///b.js']);
+		assert.strictEqual(queue.size, 0);
+	});
+
+	void it('answers pulls of changed documents first as superseded', async () => {
+		const versions = new Map([['file:///a.js', 1], ['file:///b.js', 1]]);
+		const queue = new ValidationQueue(uri => versions.get(uri));
+		const handled: [string, boolean][] = [];
+		const next = (message: Message) => {
+			if (Message.isRequest(message)) {
+				handled.push([(message.params as DocumentDiagnosticParams).textDocument.uri, queue.superseded]);
+			}
+		};
+		void queue.handleMessage(pull(1, 'file:///a.js'), next);
+		void queue.handleMessage(pull(2, 'file:///b.js'), next);
+		versions.set('file:///b.js', 2);
+		await settle();
+		assert.deepStrictEqual(handled, [['file:///b.js', true], ['file:///a.js', false]]);
+		assert.strictEqual(queue.superseded, false);
+	});
+
+	void it('supersedes a pending pull for the same document', async () => {
+		const versions = new Map([['file:///a.js', 1]]);
+		const queue = new ValidationQueue(uri => versions.get(uri));
+		const handled: [number | string, boolean][] = [];
+		const next = (message: Message) => {
+			if (Message.isRequest(message)) {
+				handled.push([message.id!, queue.superseded]);
+			}
+		};
+		void queue.handleMessage(pull(1, 'file:///a.js'), next);
+		await queue.handleMessage(pull(2, 'file:///a.js'), next);
+		assert.deepStrictEqual(handled, [[1, true]]);
+		assert.strictEqual(queue.size, 1);
+		await settle();
+		assert.deepStrictEqual(handled, [[1, true], [2, false]]);
+	});
+
+	void it('dispatches cancelled pulls right away', async () => {
+		const queue = new ValidationQueue(() => 1);
+		const handled: (number | string)[] = [];
+		const next = (message: Message) => {
+			handled.push(Message.isRequest(message) ? message.id! : (message as NotificationMessage).method);
+		};
+		void queue.handleMessage(pull(1, 'file:///a.js'), next);
+		await queue.handleMessage(notification('$/cancelRequest', { id: 1 }), next);
+		assert.deepStrictEqual(handled, [1, '$/cancelRequest']);
+		assert.strictEqual(queue.size, 0);
+		await settle();
+		assert.deepStrictEqual(handled, [1, '$/cancelRequest']);
+	});
+});
@@ -0,0 +1,48 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { CancellationToken } from 'vscode-languageserver/node';
+
+import { WorkspaceFiles } from '../workspaceFiles';
+
+void describe('Workspace files', () => {
+	let root: string;
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-workspace-'));
+		for (const file of ['b.js', 'a.ts', 'readme.md', 'src/index.js', 'node_modules/dep/index.js', '.git/hooks/pre-commit.js']) {
+			const filePath = path.join(root, file);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, '');
+		}
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	void it('enumerates files with matching extensions breadth first', async () => {
+		const files = await WorkspaceFiles.enumerate(root, new Set(['js', 'ts']));
+		assert.deepStrictEqual(files, [
+			path.join(root, 'a.ts'),
+			path.join(root, 'b.js'),
+			path.join(root, 'src', 'index.js')
+		]);
+	});
+
+	void it('returns nothing without extensions', async () => {
+		assert.deepStrictEqual(await WorkspaceFiles.enumerate(root, new Set()), []);
+	});
+
+	void it('stops when cancelled', async () => {
+		assert.deepStrictEqual(await WorkspaceFiles.enumerate(root, new Set(['js']), CancellationToken.Cancelled), []);
+	});
+});
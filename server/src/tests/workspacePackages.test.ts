@@ -0,0 +1,85 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { WorkspacePackages } from '../workspacePackages';
+
+void describe('WorkspacePackages', () => {
+	let root: string;
+
+	function write(relative: string, content: string): string {
+		const file = path.join(root, ...relative.split('/'));
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, content);
+		return file;
+	}
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-packages-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	void it('converts package globs', () => {
+		assert.ok(WorkspacePackages.toRegExp('packages/*').test('packages/a'));
+		assert.ok(!WorkspacePackages.toRegExp('packages/*').test('packages/a/src'));
+		assert.ok(WorkspacePackages.toRegExp('./apps/**').test('apps/web/client'));
+		assert.ok(!WorkspacePackages.toRegExp('apps/**').test('apps'));
+		assert.ok(WorkspacePackages.toRegExp('**/lib').test('tools/lib'));
+		assert.ok(WorkspacePackages.toRegExp('**/lib').test('lib'));
+	});
+
+	void it('finds packages declared in package.json', () => {
+		write('package.json', JSON.stringify({ workspaces: ['packages/*', '!packages/excluded'] }));
+		const file = write('packages/a/src/index.js', '');
+		assert.deepStrictEqual(WorkspacePackages.find(root, file), { directory: path.join(root, 'packages', 'a'), manifest: path.join(root, 'package.json') });
+		assert.strictEqual(WorkspacePackages.find(root, write('packages/excluded/index.js', '')), undefined);
+		assert.strictEqual(WorkspacePackages.find(root, write('scripts/build.js', '')), undefined);
+	});
+
+	void it('finds packages declared in pnpm-workspace.yaml', () => {
+		write('pnpm-workspace.yaml', 'packages:\n  # applications\n  - \'apps/*\'\n  - "libs/**"\ncatalog:\n  react: ^18\n');
+		assert.strictEqual(WorkspacePackages.find(root, write('apps/web/main.ts', ''))?.directory, path.join(root, 'apps', 'web'));
+		assert.strictEqual(WorkspacePackages.find(root, write('libs/ui/button/index.ts', ''))?.directory, path.join(root, 'libs', 'ui', 'button'));
+	});
+
+	void it('finds packages of lerna, nx and rush', () => {
+		write('lerna.json', '{}');
+		assert.strictEqual(WorkspacePackages.find(root, write('packages/a/index.js', ''))?.manifest, path.join(root, 'lerna.json'));
+		write('nx.json', '{}');
+		WorkspacePackages.clear([root]);
+		write('tools/generator/project.json', '{}');
+		assert.strictEqual(WorkspacePackages.find(root, write('tools/generator/src/index.ts', ''))?.directory, path.join(root, 'tools', 'generator'));
+		write('rush.json', '// Rush configuration\n{ "$schema": "https://developer.microsoft.com/json-schemas/rush/v5/rush.schema.json", "projects": [{ "packageName": "x", "projectFolder": "common/x" }] }');
+		WorkspacePackages.clear([root]);
+		assert.strictEqual(WorkspacePackages.find(root, write('common/x/lib/index.js', ''))?.directory, path.join(root, 'common', 'x'));
+	});
+
+	void it('reads manifests again after they changed', () => {
+		write('package.json', JSON.stringify({ workspaces: ['packages/*'] }));
+		const file = write('apps/web/main.ts', '');
+		assert.strictEqual(WorkspacePackages.find(root, file), undefined);
+		write('package.json', JSON.stringify({ workspaces: ['packages/*', 'apps/*'] }));
+		assert.strictEqual(WorkspacePackages.find(root, file), undefined);
+		WorkspacePackages.clear([path.join(root, 'apps')]);
+		assert.strictEqual(WorkspacePackages.find(root, file), undefined);
+		WorkspacePackages.clear([root]);
+		assert.strictEqual(WorkspacePackages.find(root, file)?.directory, path.join(root, 'apps', 'web'));
+	});
+
+	void it('treats directories containing a root indicator as packages', () => {
+		write('services/api/BUILD.bazel', '');
+		const file = write('services/api/src/server.ts', '');
+		assert.strictEqual(WorkspacePackages.find(root, file), undefined);
+		assert.deepStrictEqual(WorkspacePackages.find(root, file, ['BUILD.bazel']), { directory: path.join(root, 'services', 'api'), manifest: path.join(root, 'services', 'api', 'BUILD.bazel') });
+	});
+});
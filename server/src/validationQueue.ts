@@ -0,0 +1,163 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import { DocumentDiagnosticParams, DocumentDiagnosticRequest, Message, MessageStrategy, RequestMessage } from 'vscode-languageserver/node';
+
+type PendingValidation = {
+	message: RequestMessage & { id: number | string };
+	uri: string;
+	version: number | undefined;
+	next: (message: Message) => void | Promise<void>;
+};
+
+/**
+ * Schedules document diagnostic pulls. The server handles one message at a time.
+ * Instead of linting documents in the order the pulls arrive the queue holds them
+ * back and lets all other messages (for example document changes) pass first. When
+ * it is time to lint it picks:
+ *
+ * - pulls for documents that got closed. The handler answers them without linting.
+ * - pulls for documents that changed after the pull arrived. They are superseded
+ *   and the handler answers them without linting, see `superseded`. The client
+ *   pulls again for the new version.
+ * - the pull for the active document.
+ * - all other pulls in the order they arrived.
+ *
+ * A new pull for a document supersedes a pending one, which is answered right away.
+ * Cancelled pulls are answered right away without linting as well. Repeated pulls
+ * for an unchanged document (e.g. on focus) are cheap since the diagnostic handler
+ * reuses the last report of a document version.
+ */
+export class ValidationQueue implements MessageStrategy {
+
+	private static readonly cancelRequest: string = '$/cancelRequest';
+
+	private activeDocument: string | undefined;
+	private readonly pending: Map<number | string, PendingValidation>;
+	private running: Promise<void>;
+	private scheduled: boolean;
+	private dispatchingSuperseded: boolean;
+
+	/**
+	 * @param getVersion returns the current version of an open document.
+	 */
+	public constructor(private readonly getVersion: (uri: string) => number | undefined) {
+		this.pending = new Map();
+		this.running = Promise.resolve();
+		this.scheduled = false;
+		this.dispatchingSuperseded = false;
+	}
+
+	public set active(uri: string | undefined) {
+		this.activeDocument = uri;
+	}
+
+	public get size(): number {
+		return this.pending.size;
+	}
+
+	/**
+	 * Whether the pull being dispatched got superseded by a newer pull or a newer
+	 * version of its document. Only valid until the diagnostic handler awaits for
+	 * the first time.
+	 */
+	public get superseded(): boolean {
+		return this.dispatchingSuperseded;
+	}
+
+	public handleMessage(message: Message, next: (message: Message) => void | Promise<void>): void | Promise<void> {
+		if (Message.isRequest(message) && message.method === DocumentDiagnosticRequest.method && message.id !== null) {
+			const uri = (message.params as DocumentDiagnosticParams).textDocument.uri;
+			const replaced = Array.from(this.pending.values()).find(validation => validation.uri === uri);
+			this.pending.set(message.id, { message: message as PendingValidation['message'], uri, version: this.getVersion(uri), next });
+			this.schedule();
+			if (replaced !== undefined) {
+				this.pending.delete(replaced.message.id);
+				return this.run(() => this.dispatch(replaced, true));
+			}
+			return;
+		}
+		if (Message.isNotification(message) && message.method === ValidationQueue.cancelRequest) {
+			const id: number | string | undefined = (message.params as { id?: number | string } | undefined)?.id;
+			const validation = id !== undefined ? this.pending.get(id) : undefined;
+			if (validation !== undefined) {
+				this.pending.delete(validation.message.id);
+				// Dispatch the request before the cancel notification. The connection
+				// remembers the cancellation until the notification is handled and hands
+				// out an already cancelled token to the request handler.
+				return this.run(async () => {
+					await validation.next(validation.message);
+					await next(message);
+				});
+			}
+		}
+		return this.run(() => next(message));
+	}
+
+	private run(job: () => void | Promise<void>): Promise<void> {
+		const result = this.running.then(job);
+		this.running = result.catch(() => undefined);
+		return result;
+	}
+
+	private schedule(): void {
+		if (this.scheduled || this.pending.size === 0) {
+			return;
+		}
+		this.scheduled = true;
+		// The connection dispatches the next received message in an immediate as well.
+		// Wait one more turn so that it gets queued in front of the validation.
+		setImmediate(() => {
+			setImmediate(() => {
+				this.scheduled = false;
+				void this.run(() => this.dispatchNext());
+			});
+		});
+	}
+
+	private async dispatchNext(): Promise<void> {
+		const validation = this.selectNext();
+		if (validation === undefined) {
+			return;
+		}
+		this.pending.delete(validation.message.id);
+		try {
+			const version = this.getVersion(validation.uri);
+			await this.dispatch(validation, version !== undefined && version !== validation.version);
+		} finally {
+			this.schedule();
+		}
+	}
+
+	private async dispatch(validation: PendingValidation, superseded: boolean): Promise<void> {
+		// The connection calls the request handler synchronously.
+		let result: void | Promise<void>;
+		this.dispatchingSuperseded = superseded;
+		try {
+			result = validation.next(validation.message);
+		} finally {
+			this.dispatchingSuperseded = false;
+		}
+		await result;
+	}
+
+	private selectNext(): PendingValidation | undefined {
+		let active: PendingValidation | undefined;
+		let first: PendingValidation | undefined;
+		for (const validation of this.pending.values()) {
+			const version = this.getVersion(validation.uri);
+			// Pulls for closed and changed documents are answered without linting.
+			if (version === undefined || version !== validation.version) {
+				return validation;
+			}
+			if (validation.uri === this.activeDocument) {
+				active = active ?? validation;
+			} else {
+				first = first ?? validation;
+			}
+		}
+		return active ?? first;
+	}
+}
@@ -0,0 +1,63 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CancellationToken } from 'vscode-languageserver/node';
+
+/**
+ * Finds the files on disk that are candidates for linting when ESLint runs over a
+ * whole workspace folder. Whether a candidate is actually linted is decided by
+ * ESLint (e.g. `isPathIgnored`).
+ */
+export namespace WorkspaceFiles {
+
+	// ESLint never lints these directories by default. Skipping them keeps the walk
+	// cheap in large repositories.
+	const excludedDirectories: Set<string> = new Set(['node_modules', '.git']);
+
+	/**
+	 * Enumerates all files below `root` having one of the given extensions. The
+	 * directory tree is walked breadth first and the result is sorted per directory
+	 * so that the order is stable across calls.
+	 *
+	 * @param root the directory to start in.
+	 * @param extensions the file extensions without a leading dot (e.g. `js`).
+	 * @param token an optional cancellation token. It is checked before every directory.
+	 */
+	export async function enumerate(root: string, extensions: ReadonlySet<string>, token?: CancellationToken): Promise<string[]> {
+		const result: string[] = [];
+		if (extensions.size === 0) {
+			return result;
+		}
+		const directories: string[] = [root];
+		while (directories.length > 0) {
+			if (token !== undefined && token.isCancellationRequested) {
+				break;
+			}
+			const directory = directories.shift()!;
+			let entries: fs.Dirent[];
+			try {
+				entries = await fs.promises.readdir(directory, { withFileTypes: true });
+			} catch {
+				continue;
+			}
+			entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+			for (const entry of entries) {
+				// Symbolic links are neither reported as files nor as directories which
+				// protects us against cycles.
+				if (entry.isDirectory()) {
+					if (!excludedDirectories.has(entry.name)) {
+						directories.push(path.join(directory, entry.name));
+					}
+				} else if (entry.isFile() && extensions.has(path.extname(entry.name).substring(1))) {
+					result.push(path.join(directory, entry.name));
+				}
+			}
+		}
+		return result;
+	}
+}
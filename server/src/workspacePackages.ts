@@ -0,0 +1,286 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as Is from './is';
+import { isInDirectory } from './paths';
+
+/**
+ * Finds the package of a monorepo a file belongs to. Packages are declared by the
+ * manifests of the common monorepo tools or marked by user defined indicator files.
+ */
+export namespace WorkspacePackages {
+
+	export type Package = {
+		/**
+		 * The directory of the package.
+		 */
+		directory: string;
+
+		/**
+		 * The file that declares or marks the package, e.g. `/repo/pnpm-workspace.yaml`.
+		 */
+		manifest: string;
+	};
+
+	type Manifests = {
+		file: string;
+		patterns: RegExp[];
+		excludes: RegExp[];
+		folders: Set<string>;
+		projectFiles: boolean;
+	};
+
+	/**
+	 * The manifests read per directory. `null` marks a directory that isn't the root
+	 * of a monorepo.
+	 */
+	const directory2Manifests: Map<string, Manifests | null> = new Map();
+
+	/**
+	 * Forgets the manifests read in the given directories and below them. Clears
+	 * all manifests if no directories are given.
+	 */
+	export function clear(directories?: string[]): void {
+		if (directories === undefined) {
+			directory2Manifests.clear();
+			return;
+		}
+		for (const directory of Array.from(directory2Manifests.keys())) {
+			if (directories.some(changed => isInDirectory(directory, changed))) {
+				directory2Manifests.delete(directory);
+			}
+		}
+	}
+
+	/**
+	 * Returns the package containing the file. The closest directory of the file
+	 * containing a manifest is the root of the monorepo. The package is the closest
+	 * directory below that root matching the packages declared in the manifest.
+	 * Directories containing one of the root indicators are packages regardless of a
+	 * manifest.
+	 *
+	 * @param workspaceFolder the workspace folder. Directories above it are not considered.
+	 * @param file the file to find the package for.
+	 * @param rootIndicators additional file names marking the root of a package.
+	 */
+	export function find(workspaceFolder: string, file: string, rootIndicators?: string[]): Package | undefined {
+		if (file.indexOf(`${path.sep}node_modules${path.sep}`) !== -1) {
+			return undefined;
+		}
+		const directories: string[] = [];
+		let directory: string | undefined = path.dirname(file);
+		while (directory !== undefined && isInDirectory(directory, workspaceFolder)) {
+			directories.push(directory);
+			const parent = path.dirname(directory);
+			directory = parent !== directory ? parent : undefined;
+		}
+		let root: string | undefined;
+		let manifests: Manifests | undefined;
+		for (const candidate of directories) {
+			manifests = getManifests(candidate);
+			if (manifests !== undefined) {
+				root = candidate;
+				break;
+			}
+		}
+		const indicators = Array.isArray(rootIndicators) ? rootIndicators.filter(Is.string) : [];
+		for (const candidate of directories) {
+			if (candidate === root) {
+				break;
+			}
+			for (const indicator of indicators) {
+				if (fs.existsSync(path.join(candidate, indicator))) {
+					return { directory: candidate, manifest: path.join(candidate, indicator) };
+				}
+			}
+			if (root === undefined || manifests === undefined) {
+				continue;
+			}
+			const relative = path.relative(root, candidate).split(path.sep).join('/');
+			if (manifests.folders.has(relative)
+				|| (manifests.projectFiles && fs.existsSync(path.join(candidate, 'project.json')))
+				|| (manifests.patterns.some(pattern => pattern.test(relative)) && !manifests.excludes.some(pattern => pattern.test(relative)))) {
+				return { directory: candidate, manifest: manifests.file };
+			}
+		}
+		return undefined;
+	}
+
+	function getManifests(directory: string): Manifests | undefined {
+		let result = directory2Manifests.get(directory);
+		if (result === undefined) {
+			result = readManifests(directory) ?? null;
+			directory2Manifests.set(directory, result);
+		}
+		return result ?? undefined;
+	}
+
+	/**
+	 * Reads the packages declared by the manifests in the given directory. Returns
+	 * `undefined` if the directory isn't the root of a monorepo.
+	 */
+	function readManifests(directory: string): Manifests | undefined {
+		const result: Manifests = { file: '', patterns: [], excludes: [], folders: new Set(), projectFiles: false };
+		const files: string[] = [];
+		const addPatterns = (patterns: unknown, file: string) => {
+			if (!Array.isArray(patterns)) {
+				return;
+			}
+			for (const pattern of patterns) {
+				if (!Is.string(pattern) || pattern.length === 0) {
+					continue;
+				}
+				if (pattern.startsWith('!')) {
+					result.excludes.push(toRegExp(pattern.substring(1)));
+				} else {
+					result.patterns.push(toRegExp(pattern));
+				}
+			}
+			files.push(file);
+		};
+
+		const packageJson = readJson(path.join(directory, 'package.json'));
+		const workspaces = packageJson?.workspaces;
+		addPatterns(Array.isArray(workspaces) ? workspaces : workspaces?.packages, 'package.json');
+
+		const pnpmWorkspace = readFile(path.join(directory, 'pnpm-workspace.yaml'));
+		if (pnpmWorkspace !== undefined) {
+			addPatterns(parsePnpmPackages(pnpmWorkspace), 'pnpm-workspace.yaml');
+		}
+
+		const lerna = readJson(path.join(directory, 'lerna.json'));
+		if (lerna !== undefined) {
+			// Lerna defaults to `packages/*` unless the packages are declared in `package.json`.
+			addPatterns(lerna.packages ?? (lerna.useWorkspaces === true ? [] : ['packages/*']), 'lerna.json');
+		}
+
+		if (fs.existsSync(path.join(directory, 'nx.json'))) {
+			result.projectFiles = true;
+			files.push('nx.json');
+		}
+
+		const rush = readJson(path.join(directory, 'rush.json'));
+		if (rush !== undefined && Array.isArray(rush.projects)) {
+			for (const project of rush.projects) {
+				if (Is.string(project?.projectFolder)) {
+					result.folders.add(path.posix.normalize(project.projectFolder.replace(/\\/g, '/')).replace(/\/$/, ''));
+				}
+			}
+			files.push('rush.json');
+		}
+
+		if (files.length === 0) {
+			return undefined;
+		}
+		result.file = path.join(directory, files[0]);
+		return result;
+	}
+
+	/**
+	 * Converts a package glob like `packages/*` or `apps/**` into a regular expression
+	 * matching directory paths relative to the monorepo root.
+	 */
+	export function toRegExp(pattern: string): RegExp {
+		const segments = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+		let source = '';
+		for (let i = 0; i < segments.length; i++) {
+			const segment = segments[i];
+			if (segment === '**') {
+				// A trailing globstar matches the directories below but not the directory itself.
+				source += i === 0
+					? segments.length === 1 ? '.+' : '(?:[^/]+/)*'
+					: i === segments.length - 1 ? '(?:/[^/]+)+' : '(?:/[^/]+)*';
+				continue;
+			}
+			const converted = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+			source += i === 0 || (i === 1 && segments[0] === '**') ? converted : `/${converted}`;
+		}
+		return new RegExp(`^${source}$`);
+	}
+
+	function parsePnpmPackages(content: string): string[] {
+		const result: string[] = [];
+		let inPackages = false;
+		for (const line of content.split(/\r?\n/)) {
+			const text = line.replace(/\s+#.*$/, '');
+			if (/^packages\s*:/.test(text)) {
+				inPackages = true;
+				const inline = /^packages\s*:\s*\[(.*)\]\s*$/.exec(text);
+				if (inline !== null) {
+					result.push(...inline[1].split(',').map(unquote).filter(item => item.length > 0));
+					inPackages = false;
+				}
+				continue;
+			}
+			if (!inPackages || text.trim().length === 0 || text.trim().startsWith('#')) {
+				continue;
+			}
+			const item = /^\s*-\s*(.+)$/.exec(text);
+			if (item !== null) {
+				result.push(unquote(item[1]));
+			} else if (!/^\s/.test(text)) {
+				inPackages = false;
+			}
+		}
+		return result;
+	}
+
+	function unquote(value: string): string {
+		const trimmed = value.trim();
+		return /^(['"]).*\1$/.test(trimmed) ? trimmed.substring(1, trimmed.length - 1) : trimmed;
+	}
+
+	function readFile(file: string): string | undefined {
+		try {
+			return fs.readFileSync(file, 'utf8');
+		} catch {
+			return undefined;
+		}
+	}
+
+	function readJson(file: string): any | undefined {
+		const content = readFile(file);
+		if (content === undefined) {
+			return undefined;
+		}
+		try {
+			return JSON.parse(stripComments(content));
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Removes comments from JSON content. `rush.json` allows them.
+	 */
+	function stripComments(content: string): string {
+		let result = '';
+		let i = 0;
+		while (i < content.length) {
+			const char = content.charAt(i);
+			if (char === '"') {
+				let end = i + 1;
+				while (end < content.length && content.charAt(end) !== '"') {
+					end += content.charAt(end) === '\\' ? 2 : 1;
+				}
+				result += content.substring(i, end + 1);
+				i = end + 1;
+			} else if (char === '/' && content.charAt(i + 1) === '/') {
+				const end = content.indexOf('\n', i);
+				i = end === -1 ? content.length : end;
+			} else if (char === '/' && content.charAt(i + 1) === '*') {
+				const end = content.indexOf('*/', i + 2);
+				i = end === -1 ? content.length : end + 2;
+			} else {
+				result += char;
+				i++;
+			}
+		}
+		return result;
+	}
+}